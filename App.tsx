@@ -1,6 +1,6 @@
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { AppScreen, HistoryItem, CropData } from './types';
+import { AppScreen, HistoryItem, CropData, EditHistoryState, EyeSide, IridologySubject } from './types';
 import OnboardingScreen from './components/OnboardingScreen';
 import CaptureScreen from './components/CaptureScreen';
 import ProcessingScreen from './components/ProcessingScreen';
@@ -17,6 +17,13 @@ import SplashScreen from './components/SplashScreen';
 import { useLocalization } from './lib/localization';
 import { ComparisonSlider } from './components/common/Slider';
 import CropScreen from './components/CropScreen';
+import { loadHistory, saveHistoryItem } from './services/historyStorage';
+import { enqueueJob, removeJob, retryJob, useProcessingQueue } from './services/processingQueue';
+import ToastViewport from './components/common/Toast';
+import { useToast } from './lib/toast';
+import type { ImportReport } from './lib/imageImport';
+import { QuotaError, StorageError, StructureDriftError, fromAiError } from './lib/errors';
+import { StructureCheck } from './lib/structureCheck';
 
 const EnhanceResultScreen: React.FC<{
   beforeImage: string;
@@ -62,16 +69,50 @@ const EnhanceResultScreen: React.FC<{
 
 
 const App: React.FC = () => {
+  const { showError, notify } = useToast();
   const [screen, setScreen] = useState<AppScreen>(AppScreen.ONBOARDING);
   const [activeTab, setActiveTab] = useState<AppScreen>(AppScreen.CAPTURE);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
+  // What importing an uploaded photo did to it, for the crop screen; null for camera captures.
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
   const [croppedImage, setCroppedImage] = useState<string | null>(null); // This is the "before" image for the slider
   const [enhancedImage, setEnhancedImage] = useState<string | null>(null);
   const [cropData, setCropData] = useState<CropData | null>(null);
+  // Set when the structure check flagged the enhanced image; iridology readings warn about it.
+  const [enhancementDrifted, setEnhancementDrifted] = useState(false);
+  const [refreshEnhancement, setRefreshEnhancement] = useState(false);
   const [credits, setCredits] = useState<number>(3);
+  const [isPro, setIsPro] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  // The photo ExportScreen and WatchFaceScreen show. Not simply history[0]: queued enhancements
+  // finishing in the background are added to the front of the gallery too.
+  const [exportedItem, setExportedItem] = useState<HistoryItem | null>(null);
+  // The EditScreen state to restore on the next visit, e.g. when re-opening a gallery item
+  // or coming back from ExportScreen. Null starts a fresh edit from the enhanced image.
+  // `pairing` keeps a re-edited photo of a pair tagged with its eye.
+  const [editSession, setEditSession] = useState<{ history: EditHistoryState[]; historyIndex: number; fromGallery: boolean; pairing?: Pick<HistoryItem, 'eye' | 'pairId'> } | null>(null);
   const [postCaptureDestination, setPostCaptureDestination] = useState<AppScreen | null>(null);
   const [showSplash, setShowSplash] = useState(true);
+  // Queued enhancements that reached the gallery since the user last looked at it.
+  const [unseenResults, setUnseenResults] = useState(0);
+  // A both-eyes capture session: the left eye is taken first, then the right, and both results share `id`.
+  const [pairSession, setPairSession] = useState<{ id: string; eye: EyeSide } | null>(null);
+  // Both eyes of a pair, when the iridology screen should read them instead of the current photo.
+  const [pairedReading, setPairedReading] = useState<IridologySubject[] | null>(null);
+
+  // A flagged result is kept and marked in the gallery; its photo is gone by now, so there's no retry.
+  const handleJobFinished = useCallback((item: HistoryItem, structureCheck: StructureCheck | null) => {
+    setHistory(h => [item, ...h.filter(existing => existing.id !== item.id)]);
+    setUnseenResults(n => n + 1);
+    if (structureCheck?.drifted) {
+      showError(new StructureDriftError('enhancement', structureCheck.score));
+    }
+  }, [showError]);
+  const jobs = useProcessingQueue(handleJobFinished);
+
+  useEffect(() => {
+    if (screen === AppScreen.GALLERY && unseenResults > 0) setUnseenResults(0);
+  }, [screen, unseenResults]);
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -80,12 +121,30 @@ const App: React.FC = () => {
     return () => clearTimeout(timer);
   }, []);
 
+  useEffect(() => {
+    let isMounted = true;
+    loadHistory()
+      .then(savedItems => {
+        if (!isMounted) return;
+        // Keep anything exported while the gallery was still loading.
+        setHistory(h => [...h, ...savedItems.filter(saved => !h.some(item => item.id === saved.id))]);
+      })
+      .catch(error => showError(new StorageError('storageLoadFailed', error)));
+    return () => {
+      isMounted = false;
+    };
+  }, [showError]);
+
 
   const goToCapture = useCallback(() => {
     setOriginalImage(null);
+    setImportReport(null);
     setCroppedImage(null);
     setEnhancedImage(null);
     setCropData(null);
+    setEnhancementDrifted(false);
+    setEditSession(null);
+    setPairedReading(null);
     setScreen(AppScreen.CAPTURE);
     setActiveTab(AppScreen.CAPTURE);
   }, []);
@@ -116,11 +175,55 @@ const App: React.FC = () => {
     goToCapture();
   }, [goToCapture]);
 
-  const handleImageCaptured = useCallback((imageDataUrl: string) => {
+  const startPairSession = useCallback(() => {
+    setPairSession({ id: `pair-${Date.now()}`, eye: 'left' });
+    goToCapture();
+  }, [goToCapture]);
+
+  const startIridologyPairFlow = useCallback(() => {
+    setPostCaptureDestination(AppScreen.IRIDOLOGY);
+    startPairSession();
+  }, [startPairSession]);
+
+  const endPairSession = useCallback(() => {
+    setPairSession(null);
+    setPostCaptureDestination(null);
+  }, []);
+
+  // Moves a both-eyes session on once an eye has been enhanced or queued: back to the camera for the
+  // right eye, or, after it, to the pair. `rightEye` is the right eye's result when it was enhanced here.
+  const advancePairSession = useCallback((rightEye?: HistoryItem) => {
+    if (!pairSession) return;
+    if (pairSession.eye === 'left') {
+      setPairSession({ ...pairSession, eye: 'right' });
+      notify('pairLeftDone');
+      goToCapture();
+      return;
+    }
+
+    setPairSession(null);
+    const leftEye = history.find(item => item.pairId === pairSession.id && item.eye === 'left');
+    const destination = postCaptureDestination;
+    setPostCaptureDestination(null);
+    if (destination === AppScreen.IRIDOLOGY && leftEye && rightEye) {
+      setPairedReading([leftEye, rightEye].map(item => ({ image: item.enhanced, eye: item.eye })));
+      setScreen(AppScreen.IRIDOLOGY);
+      setActiveTab(AppScreen.IRIDOLOGY);
+    } else {
+      // Either eye may still be enhancing in the background; the gallery shows the pair as it fills in.
+      notify(rightEye ? 'pairComplete' : 'photoQueued');
+      setScreen(AppScreen.GALLERY);
+      setActiveTab(AppScreen.GALLERY);
+    }
+  }, [goToCapture, history, notify, pairSession, postCaptureDestination]);
+
+  const handleImageCaptured = useCallback((imageDataUrl: string, report?: ImportReport) => {
     setOriginalImage(imageDataUrl);
+    setImportReport(report ?? null);
     setCroppedImage(null);
     setEnhancedImage(null);
     setCropData(null);
+    setEditSession(null);
     setScreen(AppScreen.CROP);
   }, []);
 
@@ -129,9 +232,61 @@ const App: React.FC = () => {
     setScreen(AppScreen.PROCESSING);
   }, []);
 
-  const handleProcessingComplete = useCallback((composedBeforeDataUrl: string, enhancedImageDataUrl: string) => {
+  // Hands the crop to the background queue and goes straight back to the camera for the next shot.
+  // If the photo can't be queued, it stays on the crop screen so it can still be enhanced right away.
+  const handleQueueCrop = useCallback(async (data: CropData) => {
+    if (!originalImage) return;
+    const pairing = pairSession ? { eye: pairSession.eye, pairId: pairSession.id } : {};
+    try {
+      await enqueueJob(originalImage, data, pairing);
+    } catch (error) {
+      showError(error instanceof StorageError ? error : new StorageError('queueSaveFailed', error));
+      return;
+    }
+    if (pairSession) {
+      advancePairSession();
+      return;
+    }
+    notify('photoQueued');
+    goToCapture();
+  }, [advancePairSession, goToCapture, notify, originalImage, pairSession, showError]);
+
+  // Re-runs the enhancement of the current crop, bypassing the cached result the user rejected.
+  const reEnhance = useCallback(() => {
+    setRefreshEnhancement(true);
+    setScreen(AppScreen.PROCESSING);
+  }, []);
+
+  const handleProcessingComplete = useCallback((composedBeforeDataUrl: string, enhancedImageDataUrl: string, structureCheck: StructureCheck | null) => {
     setCroppedImage(composedBeforeDataUrl); // This state now holds the "before" image for the slider
     setEnhancedImage(enhancedImageDataUrl);
+    setRefreshEnhancement(false);
+    setEnhancementDrifted(!!structureCheck?.drifted);
+    if (structureCheck?.drifted) {
+      // A session moves on to the next eye right away, so there is no photo left to retry with.
+      showError(new StructureDriftError('enhancement', structureCheck.score), pairSession ? [] : [
+        { labelKey: 'tryAgain', onAction: reEnhance },
+      ]);
+    }
+
+    // Each eye of a session goes straight to the gallery, so the pair stays together there.
+    if (pairSession) {
+      const item: HistoryItem = {
+        id: Date.now().toString(),
+        thumbnail: enhancedImageDataUrl,
+        original: composedBeforeDataUrl,
+        enhanced: enhancedImageDataUrl,
+        edits: [],
+        editIndex: 0,
+        eye: pairSession.eye,
+        pairId: pairSession.id,
+        ...(structureCheck?.drifted && { structureDrifted: true }),
+      };
+      setHistory(h => [item, ...h]);
+      saveHistoryItem(item).catch(error => showError(new StorageError('storageSaveFailed', error)));
+      advancePairSession(item);
+      return;
+    }
     
     if (postCaptureDestination) {
       const destination = postCaptureDestination;
@@ -141,33 +296,79 @@ const App: React.FC = () => {
     } else {
       setScreen(AppScreen.ENHANCE_RESULT);
     }
-  }, [postCaptureDestination]);
+  }, [advancePairSession, pairSession, postCaptureDestination, reEnhance, showError]);
   
-  const handleProcessingError = useCallback(() => {
-    alert('Processing failed — check network connection and try again.');
-    goToCapture();
-  }, [goToCapture]);
+  // Keep the photo and crop so the user can retry as-is, or adjust the crop first.
+  const handleProcessingError = useCallback((error: unknown) => {
+    showError(fromAiError('enhancement', error), [
+      { labelKey: 'tryAgain', onAction: () => setScreen(AppScreen.PROCESSING) },
+    ]);
+    setScreen(AppScreen.CROP);
+  }, [showError]);
+
+  const handleProcessingCancel = useCallback(() => {
+    setRefreshEnhancement(false);
+    setScreen(AppScreen.CROP);
+  }, []);
 
-  const handleExport = useCallback((imageDataUrl: string) => {
-    if (credits > 0) {
-      setCredits(c => c - 1);
+  const handleReadPair = useCallback((pair: HistoryItem[]) => {
+    setPairedReading(pair.map(item => ({ image: item.enhanced, eye: item.eye, structureDrifted: item.structureDrifted })));
+    setScreen(AppScreen.IRIDOLOGY);
+    setActiveTab(AppScreen.IRIDOLOGY);
+  }, []);
+
+  const handleOpenHistoryItem = useCallback((item: HistoryItem) => {
+    setOriginalImage(null);
+    setImportReport(null);
+    setCropData(null);
+    setEnhancementDrifted(!!item.structureDrifted);
+    setCroppedImage(item.original);
+    setEnhancedImage(item.enhanced);
+    setEditSession({
+      history: [{ image: item.enhanced, effectKey: null }, ...item.edits],
+      historyIndex: item.editIndex,
+      fromGallery: true,
+      pairing: item.pairId ? { eye: item.eye, pairId: item.pairId } : undefined,
+    });
+    setExportedItem(item);
+    setScreen(AppScreen.EDIT);
+  }, []);
+
+  const handleExport = useCallback((imageDataUrl: string, editHistory: EditHistoryState[], editHistoryIndex: number, creditCost: number) => {
+    if (credits >= creditCost) {
+      setCredits(c => c - creditCost);
       const newHistoryItem: HistoryItem = {
         id: Date.now().toString(),
         thumbnail: imageDataUrl,
         original: croppedImage!,
         enhanced: enhancedImage!,
+        edits: editHistory.slice(1),
+        editIndex: editHistoryIndex,
+        ...editSession?.pairing,
+        ...(enhancementDrifted && { structureDrifted: true }),
       };
+      setEditSession({ history: editHistory, historyIndex: editHistoryIndex, fromGallery: false, pairing: editSession?.pairing });
       setHistory(h => [newHistoryItem, ...h]);
+      setExportedItem(newHistoryItem);
+      saveHistoryItem(newHistoryItem).catch(error => showError(new StorageError('storageSaveFailed', error)));
       setScreen(AppScreen.EXPORT);
     } else {
-      alert("You're out of credits! Please purchase more to export.");
-      setScreen(AppScreen.STORE);
-      setActiveTab(AppScreen.STORE);
+      showError(new QuotaError('credits'), [
+        {
+          labelKey: 'buyCredits',
+          onAction: () => {
+            setScreen(AppScreen.STORE);
+            setActiveTab(AppScreen.STORE);
+          },
+        },
+      ]);
     }
-  }, [credits, croppedImage, enhancedImage]);
+  }, [credits, croppedImage, editSession, enhancedImage, enhancementDrifted, showError]);
 
   const navigateToTab = useCallback((tab: AppScreen) => {
     setPostCaptureDestination(null); // Reset any pending flow if user navigates manually
+    setPairSession(null);
+    setPairedReading(null);
     setActiveTab(tab);
     setScreen(tab);
   }, []);
@@ -177,26 +378,31 @@ const App: React.FC = () => {
       case AppScreen.ONBOARDING:
         return <OnboardingScreen onComplete={goToCapture} />;
       case AppScreen.CAPTURE:
-        return <CaptureScreen onImageCaptured={handleImageCaptured} />;
+        return <CaptureScreen onImageCaptured={handleImageCaptured} eye={pairSession?.eye} onStartPairSession={startPairSession} onEndPairSession={endPairSession} />;
       case AppScreen.CROP:
-        return <CropScreen originalImage={originalImage!} onCropComplete={handleCropComplete} onRetake={goToCapture} />;
+        return <CropScreen originalImage={originalImage!} initialCrop={cropData} eye={pairSession?.eye} importReport={importReport} onCropComplete={handleCropComplete} onQueue={handleQueueCrop} onRetake={goToCapture} />;
       case AppScreen.PROCESSING:
-        return <ProcessingScreen originalImage={originalImage!} cropData={cropData!} onComplete={handleProcessingComplete} onError={handleProcessingError} />;
+        return <ProcessingScreen originalImage={originalImage!} cropData={cropData!} eye={pairSession?.eye} refresh={refreshEnhancement} onComplete={handleProcessingComplete} onError={handleProcessingError} onCancel={handleProcessingCancel} />;
       case AppScreen.ENHANCE_RESULT:
         return <EnhanceResultScreen beforeImage={croppedImage!} afterImage={enhancedImage!} onContinue={goToEdit} onRetake={goToCapture} />;
       case AppScreen.EDIT:
         return (
           <EditScreen
             baseImage={enhancedImage!}
+            initialHistory={editSession?.history}
+            initialHistoryIndex={editSession?.historyIndex}
             onExport={handleExport}
-            onBack={goToCapture}
+            isPro={isPro}
+            credits={credits}
+            onSpendCredits={amount => setCredits(c => c - amount)}
+            onBack={editSession?.fromGallery ? () => navigateToTab(AppScreen.GALLERY) : goToCapture}
           />
         );
       case AppScreen.EXPORT:
         return (
           <ExportScreen
-             afterImage={history[0]?.thumbnail}
-             beforeImage={history[0]?.original}
+             afterImage={exportedItem?.thumbnail}
+             beforeImage={exportedItem?.original}
              onDone={resetToHome}
              onBackToEdit={goToEdit}
              onWatchFace={goToWatchFace}
@@ -206,23 +412,35 @@ const App: React.FC = () => {
       case AppScreen.WATCHFACE:
         return (
             <WatchFaceScreen
-                imageDataUrl={history[0]?.thumbnail}
+                imageDataUrl={exportedItem?.thumbnail}
                 onBack={goToExport}
             />
         );
       case AppScreen.STORE:
-        return <StoreScreen credits={credits} setCredits={setCredits} />;
+        return <StoreScreen credits={credits} setCredits={setCredits} onSubscribePro={() => setIsPro(true)} />;
       case AppScreen.GALLERY:
-        return <GalleryScreen history={history} />;
+        return <GalleryScreen history={history} jobs={jobs} onSelectItem={handleOpenHistoryItem} onReadPair={handleReadPair} onRetryJob={retryJob} onRemoveJob={removeJob} />;
       case AppScreen.SETTINGS:
         return <SettingsScreen />;
       case AppScreen.IRIDOLOGY:
-        return <IridologyScreen enhancedImage={enhancedImage} onGoToCapture={startIridologyCaptureFlow} />;
+        return (
+          <IridologyScreen
+            subjects={iridologySubjects}
+            onReenhance={!pairedReading && originalImage && cropData ? reEnhance : undefined}
+            onGoToCapture={startIridologyCaptureFlow}
+            onCaptureBothEyes={startIridologyPairFlow}
+          />
+        );
       default:
         return <CaptureScreen onImageCaptured={handleImageCaptured} />;
     }
   };
 
+  const iridologySubjects = useMemo<IridologySubject[]>(() => {
+    if (pairedReading) return pairedReading;
+    return enhancedImage ? [{ image: enhancedImage, structureDrifted: enhancementDrifted }] : [];
+  }, [pairedReading, enhancedImage, enhancementDrifted]);
+
   const showHeaderAndNav = useMemo(() => {
       return [AppScreen.CAPTURE, AppScreen.GALLERY, AppScreen.STORE, AppScreen.SETTINGS, AppScreen.IRIDOLOGY].includes(screen);
   }, [screen]);
@@ -232,12 +450,20 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="h-full w-full bg-black flex flex-col font-sans">
+    <div className="relative h-full w-full bg-black flex flex-col font-sans">
       {showHeaderAndNav && <Header credits={credits} />}
       <main className="flex-grow overflow-y-auto min-h-0">
         {renderScreen()}
       </main>
-      {showHeaderAndNav && <BottomNav activeTab={activeTab} setActiveTab={navigateToTab} />}
+      {showHeaderAndNav && (
+        <BottomNav
+          activeTab={activeTab}
+          setActiveTab={navigateToTab}
+          galleryBadge={unseenResults}
+          galleryBusy={jobs.some(job => job.status !== 'failed')}
+        />
+      )}
+      <ToastViewport />
     </div>
   );
 };
@@ -1,11 +1,36 @@
 import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { UploadIcon, SwitchCameraIcon, AutoAIcon } from './common/Icons';
+import { UploadIcon, SwitchCameraIcon, AutoAIcon, BurstIcon, SlidersIcon, XIcon } from './common/Icons';
+import CameraControlsPanel from './common/CameraControlsPanel';
 import { useLocalization } from '../lib/localization';
-import { findEyeInFrame, IrisDetectionResult } from '../services/geminiService';
+import { EyeSide, IrisDetectionResult } from '../types';
+import { detectIrisOnDevice } from '../services/onDeviceDetection';
+import { CameraError, ImportError, SnapEyesError } from '../lib/errors';
+import { usePreference } from '../lib/preferences';
+import { useToast } from '../lib/toast';
+import { ImportReport, importImageFile } from '../lib/imageImport';
+import { captureBurst } from '../lib/burstCapture';
+import { supportsStillCapture, takeStillPhoto } from '../lib/stillCapture';
+import { MIN_CAPTURE_SCORE, QualityAssessment, QualityIssue, assessFrame, scoreFrame } from '../lib/frameQuality';
+import type { translations } from '../lib/translations';
+import {
+  CameraCapabilities,
+  CameraSettings,
+  DEFAULT_CAMERA_RESOLUTION,
+  NO_CAMERA_CAPABILITIES,
+  applyCameraSettings,
+  hasCameraControls,
+  readCameraCapabilities,
+  readCameraSettings,
+} from '../lib/cameraControls';
 import { PhoneIcon, EyeIcon, FocusIcon, LightBulbIcon } from './common/Icons';
 
 interface CaptureScreenProps {
-  onImageCaptured: (imageDataUrl: string) => void;
+  // `importReport` is set for uploaded files.
+  onImageCaptured: (imageDataUrl: string, importReport?: ImportReport) => void;
+  // The eye to photograph next, during a both-eyes session.
+  eye?: EyeSide;
+  onStartPairSession?: () => void;
+  onEndPairSession?: () => void;
 }
 
 const PhoneGuidanceAnimation: React.FC = () => (
@@ -31,6 +56,35 @@ const PhoneGuidanceAnimation: React.FC = () => (
 
 type DetectionStatus = 'idle' | 'tracking' | 'locked';
 
+// Longest side of the preview copy the live guidance is computed on.
+const GUIDANCE_SIZE = 320;
+
+const QUALITY_HINTS: Record<Exclude<QualityIssue, 'noEye'>, keyof typeof translations.en> = {
+    tooDark: 'hintTooDark',
+    tooBright: 'hintTooBright',
+    moveCloser: 'hintMoveCloser',
+    eyelid: 'hintEyelid',
+    glare: 'hintGlare',
+    blurry: 'hintBlurry',
+};
+
+// Finds the eye in the current video frame and rates the frame for capture, all on-device.
+const analyzePreview = async (video: HTMLVideoElement): Promise<{ result: IrisDetectionResult; quality: QualityAssessment } | null> => {
+    if (!video.videoWidth || !video.videoHeight) return null;
+    const scale = Math.min(1, GUIDANCE_SIZE / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const result = await detectIrisOnDevice(canvas);
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const quality = assessFrame(scoreFrame(data, width, height, result), result, video.videoWidth);
+    return { result, quality };
+};
+
 const EyeBoundingBoxOverlay: React.FC<{ status: DetectionStatus; detection: IrisDetectionResult | null; facingMode: 'user' | 'environment' }> = ({ status, detection, facingMode }) => {
     const isVisible = status !== 'idle' && detection?.success && detection.box;
     const isLocked = status === 'locked';
@@ -42,7 +96,7 @@ const EyeBoundingBoxOverlay: React.FC<{ status: DetectionStatus; detection: Iris
     const { xMin, yMin, xMax, yMax } = detection.box;
 
     // For the front-facing camera ('user'), the video preview is mirrored via CSS.
-    // The AI detection runs on the un-mirrored video stream.
+    // Iris detection runs on the un-mirrored video stream.
     // Therefore, we must flip the horizontal (x) coordinates of the bounding box
     // to correctly position it on the mirrored preview.
     const displayXMin = facingMode === 'user' ? (1 - xMax) : xMin;
@@ -64,16 +118,25 @@ const EyeBoundingBoxOverlay: React.FC<{ status: DetectionStatus; detection: Iris
 };
 
 
-const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
+const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured, eye, onStartPairSession, onEndPairSession }) => {
   const { t } = useLocalization();
+  const { showError } = useToast();
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<CameraError | null>(null);
   const [cameraReady, setCameraReady] = useState(false);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
   const [showTutorial, setShowTutorial] = useState(false);
+  const [burstEnabled, setBurstEnabled] = usePreference('burstCapture');
+  const [isBursting, setIsBursting] = useState(false);
+  const [isTakingPhoto, setIsTakingPhoto] = useState(false);
+  const [cameraResolution, setCameraResolution] = usePreference('cameraResolution');
+  const [capabilities, setCapabilities] = useState<CameraCapabilities>(NO_CAMERA_CAPABILITIES);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>({});
+  const [showCameraControls, setShowCameraControls] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
 
   // Auto-capture state
   const [autoCaptureEnabled, setAutoCaptureEnabled] = useState(false);
@@ -81,6 +144,7 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
   const [detectionResult, setDetectionResult] = useState<IrisDetectionResult | null>(null);
   const [zoom, setZoom] = useState(1);
   const [countdown, setCountdown] = useState<number | null>(null);
+  const [quality, setQuality] = useState<QualityAssessment | null>(null);
 
   const analysisIntervalRef = useRef<number | null>(null);
   const countdownTimeoutsRef = useRef<number[]>([]);
@@ -122,8 +186,8 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
         mediaStream = await navigator.mediaDevices.getUserMedia({
           video: {
             facingMode: facingMode,
-            width: { ideal: 1920 },
-            height: { ideal: 1080 },
+            width: { ideal: (cameraResolution ?? DEFAULT_CAMERA_RESOLUTION).width },
+            height: { ideal: (cameraResolution ?? DEFAULT_CAMERA_RESOLUTION).height },
           }
         });
 
@@ -135,6 +199,9 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
         }
 
         setStream(mediaStream);
+        const track = mediaStream.getVideoTracks()[0];
+        setCapabilities(track ? readCameraCapabilities(track) : NO_CAMERA_CAPABILITIES);
+        setCameraSettings(track ? readCameraSettings(track) : {});
         if (videoRef.current) {
           videoRef.current.srcObject = mediaStream;
           videoRef.current.onloadedmetadata = () => {
@@ -146,7 +213,7 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
       } catch (err) {
         console.error("Error accessing camera: ", err);
         if (isMounted) {
-            setError(t('cameraError'));
+            setError(new CameraError(err));
         }
       }
     };
@@ -159,7 +226,7 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
         mediaStream.getTracks().forEach(track => track.stop());
       }
     };
-  }, [facingMode, t]);
+  }, [facingMode, cameraResolution, t]);
 
   const stopStream = useCallback(() => {
     if (stream) {
@@ -183,32 +250,86 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
     }
   }, []);
 
-  const handleCapture = useCallback(() => {
-    initAudioContext();
-    if (videoRef.current && canvasRef.current && cameraReady) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      
-      const videoWidth = video.videoWidth;
-      const videoHeight = video.videoHeight;
-      
-      canvas.width = videoWidth;
-      canvas.height = videoHeight;
-      
-      const context = canvas.getContext('2d');
-      if (context) {
-        // The preview is mirrored using CSS transform on the video element for a natural selfie experience.
-        // The raw video stream is not mirrored. We draw the raw stream directly to the canvas
-        // to produce a final image that is correctly oriented (not mirrored), as if someone
-        // else was taking the picture.
-        context.drawImage(video, 0, 0, videoWidth, videoHeight);
-        
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.95);
+  const handleBurstCapture = useCallback(async (video: HTMLVideoElement) => {
+    setIsBursting(true);
+    try {
+      const [best] = await captureBurst(video);
+      if (best) {
+        onImageCaptured(best.toDataURL('image/jpeg', 0.95));
+        stopStream();
+      }
+    } catch (err) {
+      showError(new CameraError(err, 'burstFailed'));
+    } finally {
+      setIsBursting(false);
+    }
+  }, [onImageCaptured, showError, stopStream]);
+
+  // Draws the current video frame into the canvas. Limited to the preview stream's resolution.
+  const grabVideoFrame = useCallback((): string | null => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return null;
+
+    const videoWidth = video.videoWidth;
+    const videoHeight = video.videoHeight;
+    
+    canvas.width = videoWidth;
+    canvas.height = videoHeight;
+    
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    // The preview is mirrored using CSS transform on the video element for a natural selfie experience.
+    // The raw video stream is not mirrored. We draw the raw stream directly to the canvas
+    // to produce a final image that is correctly oriented (not mirrored), as if someone
+    // else was taking the picture.
+    context.drawImage(video, 0, 0, videoWidth, videoHeight);
+    return canvas.toDataURL('image/jpeg', 0.95);
+  }, []);
+
+  const handleStillCapture = useCallback(async (track: MediaStreamTrack) => {
+    setIsTakingPhoto(true);
+    try {
+      const dataUrl = (await takeStillPhoto(track)) ?? grabVideoFrame();
+      if (dataUrl) {
         onImageCaptured(dataUrl);
         stopStream();
       }
+    } finally {
+      setIsTakingPhoto(false);
+    }
+  }, [onImageCaptured, stopStream, grabVideoFrame]);
+
+  const handleCapture = useCallback(() => {
+    initAudioContext();
+    if (isBursting || isTakingPhoto || !videoRef.current || !cameraReady) return;
+    // A single full-sensor photo is the default. Burst mode is opt-in: it needs a dozen frames a
+    // second, which only the video stream can deliver, so it trades resolution for a steadier shot.
+    if (burstEnabled) {
+      handleBurstCapture(videoRef.current);
+      return;
+    }
+    const track = stream?.getVideoTracks()[0];
+    if (track && supportsStillCapture()) {
+      handleStillCapture(track);
+      return;
+    }
+    const dataUrl = grabVideoFrame();
+    if (dataUrl) {
+      onImageCaptured(dataUrl);
+      stopStream();
+    }
+  }, [onImageCaptured, cameraReady, stream, stopStream, initAudioContext, isBursting, isTakingPhoto, burstEnabled, handleBurstCapture, handleStillCapture, grabVideoFrame]);
+
+  // Shows the change right away; if the camera refuses it, the panel goes back to what the camera reports.
+  const handleCameraSettingsChange = useCallback(async (changes: CameraSettings) => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track) return;
+    setCameraSettings(current => ({ ...current, ...changes }));
+    if (!await applyCameraSettings(track, changes)) {
+      setCameraSettings(readCameraSettings(track));
     }
-  }, [onImageCaptured, cameraReady, stopStream, initAudioContext]);
+  }, [stream]);
 
   const handleToggleCamera = useCallback(() => {
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
@@ -218,17 +339,20 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
     fileInputRef.current?.click();
   };
   
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (typeof e.target?.result === 'string') {
-          onImageCaptured(e.target.result);
-          stopStream();
-        }
-      };
-      reader.readAsDataURL(file);
+    // Clear the input so picking the same file again after a failed import still fires a change.
+    event.target.value = '';
+    if (!file || isImporting) return;
+    setIsImporting(true);
+    try {
+      const { dataUrl, report } = await importImageFile(file);
+      onImageCaptured(dataUrl, report);
+      stopStream();
+    } catch (err) {
+      showError(err instanceof SnapEyesError ? err : new ImportError('importUnreadable', err));
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -288,26 +412,16 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
   }, [initAudioContext, resetAutoCaptureState]);
 
   const analyzeFrame = useCallback(async () => {
-    if (isAnalyzingRef.current || !videoRef.current || !canvasRef.current || !autoCaptureEnabled) return;
+    if (isAnalyzingRef.current || !videoRef.current) return;
     isAnalyzingRef.current = true;
     
     try {
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        canvas.width = 640;
-        canvas.height = (video.videoHeight / video.videoWidth) * 640;
-        
-        const context = canvas.getContext('2d');
-        if (!context) {
-            isAnalyzingRef.current = false;
-            return;
-        }
-
-        context.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-        const base64Data = dataUrl.split(',')[1];
-        
-        const result = await findEyeInFrame(base64Data);
+        // Runs entirely on-device (detection in a worker), so it's cheap enough to poll several times a second.
+        const analysis = await analyzePreview(videoRef.current);
+        if (!analysis) return;
+        const { result, quality } = analysis;
+        setQuality(quality);
+        if (!autoCaptureEnabled) return;
 
         if (result.success && result.box) {
             setDetectionResult(result);
@@ -321,14 +435,20 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
             const newZoom = Math.min(Math.max(1, targetBoxWidth / boxWidthNormalized), 4);
             setZoom(z => z + (newZoom - z) * 0.2); // Smooth zoom
 
-            if (steadyTimeoutRef.current) clearTimeout(steadyTimeoutRef.current);
-            if (!countdownInProgress.current) {
+            // Only lock once the frame has been good enough for a moment; a worse frame starts over.
+            if (quality.score < MIN_CAPTURE_SCORE) {
+                if (steadyTimeoutRef.current) clearTimeout(steadyTimeoutRef.current);
+                steadyTimeoutRef.current = null;
+                setDetectionStatus('tracking');
+            } else if (!countdownInProgress.current && !steadyTimeoutRef.current) {
                 steadyTimeoutRef.current = window.setTimeout(() => {
+                    steadyTimeoutRef.current = null;
                     setDetectionStatus('locked');
                 }, 500);
             }
         } else {
              if (steadyTimeoutRef.current) clearTimeout(steadyTimeoutRef.current);
+             steadyTimeoutRef.current = null;
              setDetectionStatus('idle');
              setDetectionResult(null);
              setZoom(z => z + (1 - z) * 0.2); // Smooth zoom out
@@ -344,15 +464,16 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
   }, [autoCaptureEnabled, detectionStatus]);
 
   useEffect(() => {
-    if (autoCaptureEnabled && cameraReady) {
-        analysisIntervalRef.current = window.setInterval(analyzeFrame, 750);
+    // Paused during a burst, which needs the time between frames for itself.
+    if (cameraReady && !isBursting) {
+        analysisIntervalRef.current = window.setInterval(analyzeFrame, 300);
     } else {
         if (analysisIntervalRef.current) clearInterval(analysisIntervalRef.current);
     }
     return () => {
         if (analysisIntervalRef.current) clearInterval(analysisIntervalRef.current);
     };
-  }, [autoCaptureEnabled, cameraReady, analyzeFrame]);
+  }, [cameraReady, isBursting, analyzeFrame]);
 
   useEffect(() => {
     if (detectionStatus === 'locked' && autoCaptureEnabled && !countdownInProgress.current) {
@@ -388,6 +509,10 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
 
 
   const topHintText = useMemo(() => {
+    if (isBursting) return t('burstCapturing');
+    // The most pressing problem with the frame, once there is an eye to judge.
+    const issue = quality?.issues[0];
+    if (issue && issue !== 'noEye' && detectionStatus !== 'locked') return t(QUALITY_HINTS[issue]);
     if (autoCaptureEnabled) {
       switch (detectionStatus) {
         case 'locked': return t('holdSteady');
@@ -396,8 +521,8 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
         default: return t('autoCaptureHint');
       }
     }
-    return t('cameraHint');
-  }, [autoCaptureEnabled, detectionStatus, t]);
+    return issue === undefined && quality ? t('hintGoodShot') : t('cameraHint');
+  }, [isBursting, quality, autoCaptureEnabled, detectionStatus, t]);
 
 
   const TutorialOverlay = ({ onDismiss }: { onDismiss: () => void }) => {
@@ -483,7 +608,7 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
       </div>
       
       <canvas ref={canvasRef} className="hidden" />
-      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*,.heic,.heif,.dng,.cr2,.cr3,.nef,.arw,.raf,.orf,.rw2" className="hidden" />
 
       {/* Error Display */}
       {error && (
@@ -491,7 +616,8 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
             <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 text-red-500 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            <p className="text-white">{error}</p>
+            <p className="text-white font-bold">{t(error.titleKey)}</p>
+            <p className="text-gray-300 mt-1">{t(error.messageKey)}</p>
              <button
                 onClick={handleToggleCamera}
                 className="mt-6 px-6 py-2 bg-cyan-600 rounded-full text-white font-semibold"
@@ -521,8 +647,40 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
         </div>
       )}
 
+       {/* Both-eyes Session */}
+       {eye && (
+        <div className="absolute top-32 left-0 right-0 p-4 z-20 flex justify-center">
+            <div className="flex items-center space-x-2 bg-cyan-500 text-black text-sm font-semibold rounded-full pl-4 pr-2 py-1.5">
+                <span>{t(eye === 'left' ? 'pairSessionLeft' : 'pairSessionRight')}</span>
+                {onEndPairSession && (
+                    <button onClick={onEndPairSession} className="p-1 rounded-full hover:bg-black/10" aria-label={t('endPairSession')}>
+                        <XIcon className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+        </div>
+       )}
+
        {/* Top Controls */}
        <div className="absolute top-0 right-0 p-8 z-20 flex items-center space-x-2">
+        {hasCameraControls(capabilities) && (
+            <button
+                onClick={() => setShowCameraControls(show => !show)}
+                className={`p-3 bg-black/40 rounded-full backdrop-blur-md transition-all duration-200 ease-in-out transform hover:scale-110 active:scale-95 ${showCameraControls ? 'text-cyan-400' : 'text-white'}`}
+                aria-label={t('cameraControls')}
+                aria-expanded={showCameraControls}
+            >
+                <SlidersIcon className="w-6 h-6" />
+            </button>
+        )}
+        <button
+            onClick={() => setBurstEnabled(!burstEnabled)}
+            className={`p-3 bg-black/40 rounded-full backdrop-blur-md transition-all duration-200 ease-in-out transform hover:scale-110 active:scale-95 ${burstEnabled ? 'text-cyan-400' : 'text-white'}`}
+            aria-label={t('burstCapture')}
+            aria-pressed={burstEnabled}
+        >
+            <BurstIcon className="w-6 h-6" />
+        </button>
         <button
             onClick={handleToggleAutoCapture}
             className={`p-3 bg-black/40 rounded-full backdrop-blur-md transition-all duration-200 ease-in-out transform hover:scale-110 active:scale-95 ${autoCaptureEnabled ? 'text-cyan-400' : 'text-white'}`}
@@ -542,17 +700,40 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
       {/* Top Hint */}
       <div className="absolute top-16 left-0 right-0 p-4 z-20 pointer-events-none flex justify-center">
          <div className="inline-flex items-center space-x-3 bg-black/50 backdrop-blur-md text-white text-sm rounded-full px-4 py-2">
-            {!autoCaptureEnabled && <PhoneGuidanceAnimation />}
+            {!autoCaptureEnabled && !quality?.issues.length && <PhoneGuidanceAnimation />}
             <span>{topHintText}</span>
+            {quality && !quality.issues.includes('noEye') && (
+                <div className="w-12 h-1.5 bg-white/20 rounded-full overflow-hidden" aria-hidden="true">
+                    <div
+                        className={`h-full rounded-full transition-all duration-300 ${quality.score >= MIN_CAPTURE_SCORE ? 'bg-cyan-400' : 'bg-amber-400'}`}
+                        style={{ width: `${Math.round(quality.score * 100)}%` }}
+                    />
+                </div>
+            )}
          </div>
       </div>
       
+      {/* Camera Controls */}
+      {showCameraControls && hasCameraControls(capabilities) && (
+        <div className="absolute bottom-36 left-0 right-0 px-4 z-30 flex justify-center">
+          <CameraControlsPanel
+            capabilities={capabilities}
+            settings={cameraSettings}
+            resolution={cameraResolution}
+            onChange={handleCameraSettingsChange}
+            onResolutionChange={setCameraResolution}
+            onClose={() => setShowCameraControls(false)}
+          />
+        </div>
+      )}
+
       {/* Bottom Controls */}
       <div className="absolute bottom-0 left-0 right-0 p-8 flex items-center justify-center z-20">
         <div className="flex-1 flex justify-start pl-4">
              <button
                 onClick={handleUploadClick}
-                className="flex flex-col items-center text-white font-semibold transition-transform duration-200 ease-in-out transform hover:scale-110 active:scale-95"
+                disabled={isImporting}
+                className={`flex flex-col items-center text-white font-semibold transition-transform duration-200 ease-in-out transform hover:scale-110 active:scale-95 ${isImporting ? 'opacity-50 animate-pulse' : ''}`}
                 aria-label="Upload from library"
             >
                 <div className="p-3 bg-black/40 rounded-full backdrop-blur-md mb-1">
@@ -564,13 +745,25 @@ const CaptureScreen: React.FC<CaptureScreenProps> = ({ onImageCaptured }) => {
         <div className="flex flex-col items-center">
             <button
             onClick={handleCapture}
-            disabled={!cameraReady || !!error}
-            className="w-20 h-20 bg-white rounded-full border-4 border-black ring-4 ring-white/50 focus:outline-none focus:ring-cyan-400 transition-transform duration-200 ease-in-out transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:scale-100"
+            disabled={!cameraReady || !!error || isBursting || isTakingPhoto}
+            className={`w-20 h-20 bg-white rounded-full ${isBursting || isTakingPhoto ? 'animate-pulse' : ''} border-4 border-black ring-4 ring-white/50 focus:outline-none focus:ring-cyan-400 transition-transform duration-200 ease-in-out transform hover:scale-110 active:scale-95 disabled:opacity-50 disabled:scale-100`}
             aria-label="Capture photo"
             >
             </button>
         </div>
-        <div className="flex-1"></div>
+        <div className="flex-1 flex justify-end pr-4">
+            {!eye && onStartPairSession && (
+                <button
+                    onClick={onStartPairSession}
+                    className="flex flex-col items-center text-white font-semibold transition-transform duration-200 ease-in-out transform hover:scale-110 active:scale-95"
+                >
+                    <div className="p-3 bg-black/40 rounded-full backdrop-blur-md mb-1">
+                        <EyeIcon className="w-6 h-6" />
+                    </div>
+                    <span className="text-xs drop-shadow-md">{t('captureBothEyes')}</span>
+                </button>
+            )}
+        </div>
       </div>
     </div>
   );
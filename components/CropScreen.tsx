@@ -1,33 +1,57 @@
 
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { detectIris } from '../services/geminiService';
+import { isCancelled } from '../services/aiRequest';
 import { EyeIcon } from './common/Icons';
+import EyeBadge from './common/EyeBadge';
 import { useLocalization } from '../lib/localization';
-import { CropData } from '../types';
+import { CropData, EyeSide, IrisDetectionResult } from '../types';
+import { detectIrisOnDevice } from '../services/onDeviceDetection';
+import { getPreference } from '../lib/preferences';
+import { DetectionError, SnapEyesError } from '../lib/errors';
+import type { ImportReport } from '../lib/imageImport';
 
 interface CropScreenProps {
   originalImage: string;
+  // A crop to start from instead of detecting one, e.g. when coming back from a cancelled enhancement.
+  initialCrop?: CropData | null;
   onCropComplete: (cropData: CropData) => void;
+  // Enhance in the background instead, so the user can capture the next photo right away.
+  onQueue?: (cropData: CropData) => void;
   onRetake: () => void;
+  // Set during a both-eyes session.
+  eye?: EyeSide;
+  // Set for uploaded photos; what the import changed is listed under the title.
+  importReport?: ImportReport | null;
 }
 
-const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete, onRetake }) => {
+const hasIrisCircle = (result: IrisDetectionResult): result is IrisDetectionResult & { centerX: number; centerY: number; radius: number } =>
+  result.success && typeof result.centerX === 'number' && typeof result.centerY === 'number' && typeof result.radius === 'number' && result.radius > 0;
+
+const CropScreen: React.FC<CropScreenProps> = ({ originalImage, initialCrop, onCropComplete, onQueue, onRetake, eye, importReport }) => {
   const { t } = useLocalization();
   const [status, setStatus] = useState<'loading' | 'editing' | 'error'>('loading');
-  const [errorMessage, setErrorMessage] = useState<string>('');
+  const [error, setError] = useState<SnapEyesError | null>(null);
   
   const [cropParams, setCropParams] = useState({ x: 0, y: 0, radius: 100 });
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  const [isRefining, setIsRefining] = useState(false);
+  const [autoDetectFailed, setAutoDetectFailed] = useState(false);
 
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const isDragging = useRef(false);
   const dragStartOffset = useRef({ x: 0, y: 0 });
+  // Once the user has moved or resized the circle, a late cloud refinement must not override it.
+  const userAdjustedRef = useRef(false);
+  const refineControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => refineControllerRef.current?.abort(), []);
 
   const getInitialCrop = useCallback(async () => {
     if (!imageRef.current) {
-        setErrorMessage("Image reference could not be found.");
+        setError(new DetectionError('imageLoadFailed'));
         setStatus('error');
         return;
     }
@@ -36,32 +60,68 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
     const currentImageSize = { width: img.clientWidth, height: img.clientHeight };
     setImageSize(currentImageSize);
 
-    const base64Data = originalImage.split(',')[1];
+    const toCropParams = (result: { centerX: number; centerY: number; radius: number }) => ({
+        x: result.centerX * currentImageSize.width,
+        y: result.centerY * currentImageSize.height,
+        radius: result.radius * currentImageSize.width,
+    });
+    const showManualCrop = () => {
+        setCropParams({
+            x: currentImageSize.width / 2,
+            y: currentImageSize.height / 2,
+            radius: Math.min(currentImageSize.width, currentImageSize.height) / 4,
+        });
+        setAutoDetectFailed(true);
+        setStatus('editing');
+    };
 
-    try {
-        const irisDetectionResult = await detectIris(base64Data);
+    if (initialCrop) {
+        userAdjustedRef.current = true;
+        setCropParams(toCropParams(initialCrop));
+        setStatus('editing');
+        return;
+    }
 
-        if (!irisDetectionResult.success || !irisDetectionResult.centerX || !irisDetectionResult.centerY || !irisDetectionResult.radius) {
-            setErrorMessage(irisDetectionResult.error || 'An unknown error occurred.');
-            setStatus('error');
-            return;
-        }
-        
-        const { centerX, centerY, radius } = irisDetectionResult;
-        const newCropParams = {
-            x: centerX * currentImageSize.width,
-            y: centerY * currentImageSize.height,
-            radius: radius * currentImageSize.width,
-        };
-        setCropParams(newCropParams);
+    // Fast, offline first pass. This is usually all we need.
+    const localResult = await detectIrisOnDevice(img);
+    const foundLocally = hasIrisCircle(localResult);
+    if (foundLocally) {
+        setCropParams(toCropParams(localResult));
         setStatus('editing');
+    }
 
-    } catch (error) {
-        console.error(error);
-        setErrorMessage(error instanceof Error ? error.message : 'An unknown error occurred.');
-        setStatus('error');
+    if (!getPreference('cloudIrisRefinement')) {
+        if (!foundLocally) showManualCrop();
+        return;
     }
-  }, [originalImage]);
+
+    // Optional cloud refinement. The user can already adjust the local crop while this runs.
+    setIsRefining(true);
+    refineControllerRef.current?.abort();
+    const controller = new AbortController();
+    refineControllerRef.current = controller;
+    try {
+        const base64Data = originalImage.split(',')[1];
+        const cloudResult = await detectIris(base64Data, { signal: controller.signal });
+
+        if (hasIrisCircle(cloudResult)) {
+            if (!userAdjustedRef.current) {
+                setCropParams(toCropParams(cloudResult));
+            }
+            setAutoDetectFailed(false);
+            setStatus('editing');
+        } else if (!foundLocally) {
+            showManualCrop();
+        }
+    } catch (refineError) {
+        if (isCancelled(refineError)) return;
+        // The manual crop is the recovery, so this is only worth a log line.
+        console.warn('Cloud iris refinement failed:', refineError);
+        if (!foundLocally) showManualCrop();
+    } finally {
+        if (!controller.signal.aborted) setIsRefining(false);
+    }
+  }, [initialCrop, originalImage]);
 
   const getPointerPosition = (e: React.MouseEvent | React.TouchEvent | MouseEvent | TouchEvent) => {
     if (!containerRef.current) return { x: 0, y: 0 };
@@ -99,6 +159,7 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
   const handleDragStart = useCallback((e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault();
     isDragging.current = true;
+    userAdjustedRef.current = true;
     const pos = getPointerPosition(e);
     dragStartOffset.current = {
         x: pos.x - cropParams.x,
@@ -113,6 +174,7 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
   }, [cropParams.x, cropParams.y, handleDragEnd, handleDragMove]);
 
   const handleRadiusChange = useCallback((newRadius: number) => {
+    userAdjustedRef.current = true;
     setCropParams(prev => {
         const clampedRadius = Math.max(20, Math.min(newRadius, Math.floor(Math.min(imageSize.width, imageSize.height) / 2)));
         const newX = Math.max(clampedRadius, Math.min(prev.x, imageSize.width - clampedRadius));
@@ -121,16 +183,31 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
     });
   }, [imageSize]);
   
-  const handleContinue = useCallback(() => {
-    if (!imageSize.width || !imageSize.height) return;
-
-    const normalizedCropData: CropData = {
+  const normalizedCrop = useCallback((): CropData | null => {
+    if (!imageSize.width || !imageSize.height) return null;
+    return {
       centerX: cropParams.x / imageSize.width,
       centerY: cropParams.y / imageSize.height,
       radius: cropParams.radius / imageSize.width, // Radius is relative to image width
     };
-    onCropComplete(normalizedCropData);
-  }, [cropParams, imageSize, onCropComplete]);
+  }, [cropParams, imageSize]);
+
+  const handleContinue = useCallback(() => {
+    const cropData = normalizedCrop();
+    if (cropData) onCropComplete(cropData);
+  }, [normalizedCrop, onCropComplete]);
+
+  const handleQueue = useCallback(() => {
+    const cropData = normalizedCrop();
+    if (cropData) onQueue?.(cropData);
+  }, [normalizedCrop, onQueue]);
+
+  const importNotes = importReport ? [
+    importReport.format !== 'jpeg' && `${t('importConvertedFrom')} ${importReport.sourceLabel}`,
+    importReport.rotated && t('importRotated'),
+    importReport.locationRemoved && t('importLocationRemoved'),
+    importReport.downscaled && t('importDownscaled'),
+  ].filter((note): note is string => !!note) : [];
 
   return (
     <div className="min-h-full w-full bg-gray-900 flex flex-col">
@@ -146,8 +223,8 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
           <svg xmlns="http://www.w3.org/2000/svg" className="h-20 w-20 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          <h2 className="text-xl font-bold mt-6">{t('detectionFailed')}</h2>
-          <p className="text-gray-400 mt-2 max-w-sm">{errorMessage}</p>
+          <h2 className="text-xl font-bold mt-6">{t(error?.titleKey ?? 'detectionFailed')}</h2>
+          <p className="text-gray-400 mt-2 max-w-sm">{t(error?.messageKey ?? 'detectionFailedSub')}</p>
           <button
               onClick={onRetake}
               className="mt-8 w-full max-w-xs bg-red-500 hover:bg-red-600 text-white font-bold py-3 px-4 rounded-full transition-transform duration-200 ease-in-out transform hover:scale-105"
@@ -158,8 +235,16 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
       )}
 
       <div className={`p-6 text-center flex-shrink-0 transition-opacity duration-300 ${status === 'editing' ? 'opacity-100' : 'opacity-0'}`}>
+          {eye && <EyeBadge eye={eye} className="mb-2" />}
           <h2 className="text-3xl font-bold mb-2">{t('adjustCrop')}</h2>
-          <p className="text-gray-400">{t('adjustCropSub')}</p>
+          <p className="text-gray-400">{autoDetectFailed ? t('irisNotFoundManual') : t('adjustCropSub')}</p>
+          {importNotes.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 mt-3">
+              {importNotes.map(note => (
+                <span key={note} className="bg-gray-800 text-gray-300 text-xs px-2 py-1 rounded-full">{note}</span>
+              ))}
+            </div>
+          )}
       </div>
 
       <div ref={containerRef} className="flex-grow flex items-center justify-center my-4 relative">
@@ -169,7 +254,7 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
             alt="Eye to be cropped" 
             className={`max-w-full max-h-full object-contain select-none transition-opacity duration-300 ${status === 'editing' ? 'opacity-100' : 'opacity-0'}`}
             onLoad={getInitialCrop}
-            onError={() => { setErrorMessage("The image file could not be loaded."); setStatus('error');}}
+            onError={() => { setError(new DetectionError('imageLoadFailed')); setStatus('error');}}
           />
           {status === 'editing' && imageSize.width > 0 && (
             <>
@@ -190,6 +275,11 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
                   onMouseDown={handleDragStart}
                   onTouchStart={handleDragStart}
               ></div>
+              {isRefining && (
+                <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-black/60 backdrop-blur-md text-cyan-300 text-xs rounded-full px-3 py-1 animate-pulse pointer-events-none" role="status">
+                  {t('refiningCrop')}
+                </div>
+              )}
             </>
           )}
       </div>
@@ -225,6 +315,11 @@ const CropScreen: React.FC<CropScreenProps> = ({ originalImage, onCropComplete,
                   {t('continue')}
               </button>
           </div>
+          {onQueue && (
+              <button onClick={handleQueue} className="w-full mt-3 text-cyan-300 hover:text-cyan-200 font-semibold py-2 transition-colors">
+                  {t('queueAndCaptureNext')}
+              </button>
+          )}
       </div>
     </div>
   );
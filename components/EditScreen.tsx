@@ -1,114 +1,387 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { applyEffectToEyeImage } from '../services/geminiService';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { applyEffectToEyeImage, applyEffectVariations } from '../services/geminiService';
+import { isCancelled } from '../services/aiRequest';
+import { RenderError, StructureDriftError, fromAiError } from '../lib/errors';
+import { checkStructureSafely } from '../lib/structureCheck';
+import { matchSourceResolution } from '../lib/detailTransfer';
+import { useToast } from '../lib/toast';
 import { ArrowLeftIcon, SparklesIcon, UndoIcon, RedoIcon } from './common/Icons';
 import { useLocalization } from '../lib/localization';
-import { translations } from '../lib/translations';
+import { Adjustments, EditHistoryState, EffectBlend, EffectDefinition, EffectId, EffectPreset } from '../types';
+import { NEUTRAL_ADJUSTMENTS, applyAdjustmentsToPixels, isNeutral, loadImageElement, readPixels, renderAdjustedImage } from '../lib/adjustments';
+import { DEFAULT_BLEND, blendEffectPixels, readBlendPixels, renderBlendedImage } from '../lib/effectBlend';
+import AdjustmentsPanel from './common/AdjustmentsPanel';
+import EffectBlendControls from './common/EffectBlendControls';
+import EditStepsPanel from './common/EditStepsPanel';
+import { rerenderChain } from '../lib/editChain';
+import { usePreference } from '../lib/preferences';
+import { isCustomEffectId, useEffectPresets } from '../lib/effectPresets';
+import EffectPresetsModal from './common/EffectPresetsModal';
+import { findEffect, groupEffectsByCategory, localize, useEffectCatalog } from '../services/effectCatalog';
+import { MAX_EFFECT_VARIATIONS } from '../services/prompts';
+import VariationPicker from './common/VariationPicker';
 
 interface EditScreenProps {
   baseImage: string;
-  onExport: (editedImageDataUrl: string) => void;
+  // Restores a previous session (e.g. a gallery item); defaults to just the base image.
+  initialHistory?: EditHistoryState[];
+  initialHistoryIndex?: number;
+  // `creditCost` is what exporting this result costs: 1, plus whatever the catalog charges for its effects.
+  onExport: (editedImageDataUrl: string, history: EditHistoryState[], historyIndex: number, creditCost: number) => void;
+  isPro: boolean;
+  credits: number;
+  // Extra effect variations are paid for when they are generated, not at export.
+  onSpendCredits: (amount: number) => void;
   onBack: () => void;
 }
 
-type EffectKey = keyof typeof translations.en & ('cosmic' | 'luminous' | 'celestial' | 'liquid' | 'ethereal' | 'aura' | 'shatter' | 'inferno');
+// The live preview renders at this size; the history step is rendered at full size on release.
+const PREVIEW_MAX_SIZE = 512;
 
-interface HistoryState {
-  image: string;
-  effectKey: EffectKey | null;
-}
-
-const effectPrompts: Record<EffectKey, string> = {
-  cosmic: "**PROFESSIONAL RETOUCHING TASK:** Apply a subtle 'Cosmic Dust' effect to this iris.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** The natural fibrous texture of the iris is paramount. It must not be obscured. The effect is an *addition*, not a replacement.\n\n**EFFECT DETAILS:** Overlay a delicate, sparkling field of cosmic dust around the outer edge of the iris, with a few faint, wispy trails of nebula gas that match the iris's natural colors. The core structure and details of the iris must remain perfectly sharp and clear. The effect should look like the iris is floating in a gentle, beautiful starfield, not exploding. 1:1 aspect ratio.",
-  luminous: "**PROFESSIONAL RETOUCHING TASK:** Apply a subtle 'Luminous' glow effect.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** Do not alter or smooth out the natural fiber texture of the iris. The glow should enhance the existing details, not hide them.\n\n**EFFECT DETAILS:** Make the natural fibers of the iris emit a soft, internal light (bioluminescence). The light's color must be a slightly more saturated version of the iris's own pigment. The glow should be strongest in the denser parts of the iris and fainter in others, enhancing the natural 3D texture and depth. The overall effect should be magical but organic, preserving every detail. 1:1 aspect ratio.",
-  celestial: "**PROFESSIONAL RETOUCHING TASK:** Frame this iris with a 'Celestial' aura.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** The iris itself must remain completely unchanged and realistic. This effect is purely about the background and surrounding aura.\n\n**EFFECT DETAILS:** Keep the iris photo exactly as provided. Around the outer perimeter of the iris, create a soft, ethereal nebula cloud that perfectly matches the colors of the iris. Sprinkle tiny, subtle stars into the black background. The iris should look like a planet viewed from space, with its atmosphere glowing. Do not modify the iris texture or details. 1:1 aspect ratio.",
-  liquid: "**PROFESSIONAL RETOUCHING TASK:** Add a 'Liquid Splash' effect around the iris.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** The iris itself must remain perfectly intact, sharp, and realistic. The effect must not touch or distort the iris.\n\n**EFFECT DETAILS:** Create a dynamic, high-speed splash of clear liquid surrounding the iris, as if the iris just dropped into water. The liquid should be splashing outwards from behind the iris. The lighting on the splashes should be dramatic, catching highlights. The iris itself should stay pristine and untouched. 1:1 aspect ratio.",
-  ethereal: "**PROFESSIONAL RETOUCHING TASK:** Add 'Ethereal Wisps' around the iris.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** The detailed, fibrous structure of the iris must be fully preserved. The effect is external to the iris.\n\n**EFFECT DETAILS:** Create delicate, soft wisps of colored smoke or light gently curling around the outer edge of the iris. The color of these wisps must be derived from the natural colors within the iris. The iris itself should remain sharp and untouched, appearing as if it is a magical object emitting this gentle aura. The effect should be subtle and elegant. 1:1 aspect ratio.",
-  aura: "**PROFESSIONAL RETOUCHING TASK:** Encircle this iris with a celestial 'Aura'.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** The iris itself must remain completely unchanged, sharp, and realistic. The effect is purely external.\n\n**EFFECT DETAILS:** Create a soft, bright, glowing ring of light that tightly frames the outer edge of the iris, similar to a solar eclipse's corona. The color of the glow should be a pale, ethereal blue or white. The background should be filled with a dense, beautiful field of distant stars. The iris must not be altered. 1:1 aspect ratio.",
-  shatter: "**PROFESSIONAL RETOUCHING TASK:** Apply a dynamic 'Shatter' effect to this iris.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** While the edges will be altered, the core, central structure of the iris must remain recognizable and detailed.\n\n**EFFECT DETAILS:** Make the outer edges of the iris appear to be exploding or dissolving into a fine spray of sharp, crystalline particles. These particles should trail off into the black background. Enhance the internal fibers of the iris to look slightly more electric and fractured, as if it's breaking apart from within. The effect should be energetic and dynamic. 1:1 aspect ratio.",
-  inferno: "**PROFESSIONAL RETOUCHING TASK:** Transform this iris with a fiery 'Inferno' effect.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** The fundamental fiber pattern of the iris should be the basis for the effect, not completely replaced.\n\n**EFFECT DETAILS:** Make the iris glow from within like cooling lava. The natural fibers and crypts should be traced with lines of fiery orange and yellow light, as if they are cracks in volcanic rock. Add a soft, warm, glowing aura around the entire iris that casts a subtle light. The effect should be intense and powerful, like looking into the heart of a volcano. 1:1 aspect ratio.",
-};
+type BlendValues = Omit<EffectBlend, 'output'>;
 
-const effectKeys = Object.keys(effectPrompts) as EffectKey[];
+// Variations waiting for the user to pick one; nothing is in the history until they do.
+interface PendingVariations {
+  effectKey: EffectId;
+  preset?: EffectPreset;
+  images: string[];
+  // Variations the structure check flagged, by index.
+  flagged: boolean[];
+  afterIndex: number;
+}
 
 const EditScreen: React.FC<EditScreenProps> = ({
   baseImage,
+  initialHistory,
+  initialHistoryIndex,
   onExport,
   onBack,
+  isPro,
+  credits,
+  onSpendCredits,
 }) => {
-  const { t } = useLocalization();
+  const { t, language } = useLocalization();
+  const { catalog, error: catalogError } = useEffectCatalog();
+  const { showError } = useToast();
   const [showOriginal, setShowOriginal] = useState(false);
-  const [history, setHistory] = useState<HistoryState[]>([{ image: baseImage, effectKey: null }]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const [history, setHistory] = useState<EditHistoryState[]>(() => initialHistory ?? [{ image: baseImage, effectKey: null }]);
+  const [historyIndex, setHistoryIndex] = useState(() => initialHistoryIndex ?? (initialHistory ? initialHistory.length - 1 : 0));
   const [isApplyingEffect, setIsApplyingEffect] = useState<boolean>(false);
-  const [applyingEffectKey, setApplyingEffectKey] = useState<EffectKey | null>(null);
+  const [applyingEffectKey, setApplyingEffectKey] = useState<EffectId | null>(null);
+  const { presets, savePreset, deletePreset, importPresets } = useEffectPresets();
+  const [showPresets, setShowPresets] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [activePanel, setActivePanel] = useState<'effects' | 'adjust' | 'steps'>('effects');
+  const [stackEffects, setStackEffects] = usePreference('stackEffects');
+  const [effectVariations, setEffectVariations] = usePreference('effectVariations');
+  const [pendingVariations, setPendingVariations] = useState<PendingVariations | null>(null);
+  // Slider values while dragging; null when the preview should show the current history step.
+  const [draftAdjustments, setDraftAdjustments] = useState<Adjustments | null>(null);
+  const [draftBlend, setDraftBlend] = useState<BlendValues | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  const previewSourceRef = useRef<ImageData | null>(null);
+  const blendSourceRef = useRef<{ base: ImageData; effect: ImageData } | null>(null);
+
+  // Cancel an effect that is still running when the user leaves the screen.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
   const currentHistoryState = history[historyIndex];
   const selectedEffect = currentHistoryState.effectKey;
+  const isBusy = isApplyingEffect || isRendering;
+
+  // Adjustments are always rendered from the closest step that has none, so they never stack up.
+  const adjustmentSourceIndex = useMemo(() => {
+    let index = historyIndex;
+    while (index > 0 && history[index].adjustments) index--;
+    return index;
+  }, [history, historyIndex]);
+  const adjustmentSource = history[adjustmentSourceIndex];
+  const currentAdjustments = currentHistoryState.adjustments ?? NEUTRAL_ADJUSTMENTS;
+  // An effect step is blended over the step right before it.
+  const currentBlend = currentHistoryState.blend;
+  const blendBaseImage = currentBlend && historyIndex > 0 ? history[historyIndex - 1].image : null;
+  const isPreviewing = (draftAdjustments !== null || draftBlend !== null) && !showOriginal;
+
+  // Adds a step after `afterIndex` (the current step by default), dropping anything that followed it.
+  const pushHistoryState = useCallback((state: EditHistoryState, afterIndex = historyIndex) => {
+    const newHistory = history.slice(0, afterIndex + 1);
+    newHistory.push(state);
+    setHistory(newHistory);
+    setHistoryIndex(newHistory.length - 1);
+  }, [history, historyIndex]);
+
+  useEffect(() => {
+    let isMounted = true;
+    previewSourceRef.current = null;
+    loadImageElement(adjustmentSource.image)
+      .then(img => {
+        if (isMounted) previewSourceRef.current = readPixels(img, PREVIEW_MAX_SIZE);
+      })
+      .catch(error => console.warn('Could not prepare the adjustment preview:', error));
+    return () => {
+      isMounted = false;
+    };
+  }, [adjustmentSource.image]);
+
+  const blendOutput = currentBlend?.output;
+  useEffect(() => {
+    let isMounted = true;
+    blendSourceRef.current = null;
+    if (!blendBaseImage || !blendOutput) return;
+    readBlendPixels(blendBaseImage, blendOutput, PREVIEW_MAX_SIZE)
+      .then(pixels => {
+        if (isMounted) blendSourceRef.current = pixels;
+      })
+      .catch(error => console.warn('Could not prepare the intensity preview:', error));
+    return () => {
+      isMounted = false;
+    };
+  }, [blendBaseImage, blendOutput]);
+
+  // Redraw the preview at most once per frame while a slider moves.
+  useEffect(() => {
+    if (!draftAdjustments && !draftBlend) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = previewCanvasRef.current;
+      let pixels: ImageData | null = null;
+      if (draftBlend && blendSourceRef.current) {
+        pixels = blendEffectPixels(blendSourceRef.current.base, blendSourceRef.current.effect, draftBlend);
+      } else if (draftAdjustments && previewSourceRef.current) {
+        pixels = applyAdjustmentsToPixels(previewSourceRef.current, draftAdjustments);
+      }
+      if (!pixels || !canvas) return;
+      canvas.width = pixels.width;
+      canvas.height = pixels.height;
+      canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [draftAdjustments, draftBlend]);
+
+  const handleCommitAdjustments = useCallback(async (adjustments: Adjustments) => {
+    const unchanged = (Object.keys(adjustments) as (keyof Adjustments)[]).every(key => adjustments[key] === currentAdjustments[key]);
+    if (unchanged || isBusy) {
+      setDraftAdjustments(null);
+      return;
+    }
+
+    setIsRendering(true);
+    try {
+      if (isNeutral(adjustments)) {
+        pushHistoryState({ image: adjustmentSource.image, effectKey: adjustmentSource.effectKey, customEffect: adjustmentSource.customEffect, adjustments });
+      } else {
+        const image = await renderAdjustedImage(adjustmentSource.image, adjustments);
+        pushHistoryState({ image, effectKey: adjustmentSource.effectKey, customEffect: adjustmentSource.customEffect, adjustments });
+      }
+    } catch (error) {
+      showError(new RenderError('adjustmentsRenderFailed', error));
+    } finally {
+      setDraftAdjustments(null);
+      setIsRendering(false);
+    }
+  }, [adjustmentSource, currentAdjustments, isBusy, pushHistoryState, showError]);
+
+  // Intensity and mask are properties of the applied effect, so changing them updates the effect's
+  // step in place. Steps after it were rendered from the old image, so they are dropped, as with any new edit.
+  const handleCommitBlend = useCallback(async (values: BlendValues) => {
+    const unchanged = currentBlend
+      && values.intensity === currentBlend.intensity
+      && values.protectCore === currentBlend.protectCore
+      && values.coreRadius === currentBlend.coreRadius;
+    if (!currentBlend || !blendBaseImage || unchanged || isBusy) {
+      setDraftBlend(null);
+      return;
+    }
+
+    setIsRendering(true);
+    try {
+      const blend = { ...values, output: currentBlend.output };
+      const image = await renderBlendedImage(blendBaseImage, blend);
+      setHistory([...history.slice(0, historyIndex), { ...currentHistoryState, image, blend }]);
+    } catch (error) {
+      showError(new RenderError('blendRenderFailed', error));
+    } finally {
+      setDraftBlend(null);
+      setIsRendering(false);
+    }
+  }, [blendBaseImage, currentBlend, currentHistoryState, history, historyIndex, isBusy, showError]);
   
-  const handleApplyEffect = useCallback(async (effectKey: EffectKey) => {
-    if (isApplyingEffect) return;
+  const commitEffect = useCallback((effectKey: EffectId, preset: EffectPreset | undefined, image: string, afterIndex: number) => {
+    pushHistoryState({
+      image,
+      effectKey,
+      ...(preset && { customEffect: { name: preset.name, prompt: preset.prompt } }),
+      blend: { ...DEFAULT_BLEND, output: image },
+      ...(stackEffects && { stacked: true }),
+    }, afterIndex);
+  }, [pushHistoryState, stackEffects]);
+
+  // `retryOf` is the image of a result the structure check flagged. If that result is still the
+  // current step, the retry replaces it; either way the cached result is skipped.
+  const handleApplyEffect = useCallback(async (effectKey: EffectId, retryOf?: string) => {
+    if (isBusy) return;
+    const preset = isCustomEffectId(effectKey) ? presets.find(p => p.id === effectKey) : undefined;
+    const prompt = preset ? preset.prompt : findEffect(catalog, effectKey)?.prompt;
+    if (!prompt) return;
     
     setApplyingEffectKey(effectKey);
     setIsApplyingEffect(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
-      const base64Data = baseImage.split(',')[1];
-      const resultBase64 = await applyEffectToEyeImage(base64Data, effectPrompts[effectKey]);
-      
-      const newImage = `data:image/png;base64,${resultBase64}`;
-      const newHistoryState: HistoryState = { image: newImage, effectKey };
-      
-      const newHistory = history.slice(0, historyIndex + 1);
-      newHistory.push(newHistoryState);
-      
-      setHistory(newHistory);
-      setHistoryIndex(newHistory.length - 1);
+      const replacesCurrent = retryOf !== undefined && historyIndex > 0 && currentHistoryState.image === retryOf;
+      const afterIndex = replacesCurrent ? historyIndex - 1 : historyIndex;
+      const inputImage = stackEffects ? history[afterIndex].image : baseImage;
+      const base64Data = inputImage.split(',')[1];
+      const options = { signal: controller.signal, refresh: retryOf !== undefined };
+      // Never ask for more variations than the user can pay for.
+      const count = retryOf === undefined ? Math.min(effectVariations, credits + 1) : 1;
+      const results = count > 1
+        ? await applyEffectVariations(base64Data, prompt, count, options)
+        : [{ image: await applyEffectToEyeImage(base64Data, prompt, options), cached: false }];
+      const outputs = results.map(result => `data:image/png;base64,${result.image}`);
+      const checks = await Promise.all(outputs.map(output => checkStructureSafely(inputImage, output, 'effect')));
+      // Back to the working resolution of the input, with its detail unless the structure drifted.
+      const images = await Promise.all(outputs.map((output, i) => matchSourceResolution(output, inputImage, !checks[i]?.drifted)));
+      if (controller.signal.aborted) return;
 
+      // One variation is included, like a normal effect; each extra one that was actually generated
+      // costs a credit. Variations replayed from the result cache are free.
+      if (images.length > 1) {
+        const generated = results.filter(result => !result.cached).length;
+        if (generated > 1) onSpendCredits(generated - 1);
+        setPendingVariations({ effectKey, preset, images, flagged: checks.map(check => !!check?.drifted), afterIndex });
+        return;
+      }
+      commitEffect(effectKey, preset, images[0], afterIndex);
+      const check = checks[0];
+      if (check?.drifted) {
+        showError(new StructureDriftError('effect', check.score), [
+          { labelKey: 'tryAgain', onAction: () => handleApplyEffectRef.current(effectKey, images[0]) },
+        ]);
+      }
     } catch (error) {
-      console.error("Failed to apply effect:", error);
-      alert("Sorry, we couldn't apply this effect. Please try again.");
+      if (isCancelled(error)) return;
+      showError(fromAiError('effect', error), [
+        { labelKey: 'tryAgain', onAction: () => handleApplyEffectRef.current(effectKey) },
+      ]);
     } finally {
-      setIsApplyingEffect(false);
-      setApplyingEffectKey(null);
+      if (!controller.signal.aborted) {
+        setIsApplyingEffect(false);
+        setApplyingEffectKey(null);
+      }
     }
-  }, [baseImage, isApplyingEffect, history, historyIndex]);
+  }, [baseImage, catalog, commitEffect, credits, currentHistoryState, effectVariations, history, historyIndex, isBusy, onSpendCredits, presets, showError, stackEffects]);
+
+  const handlePickVariation = useCallback((index: number) => {
+    if (!pendingVariations) return;
+    commitEffect(pendingVariations.effectKey, pendingVariations.preset, pendingVariations.images[index], pendingVariations.afterIndex);
+    setPendingVariations(null);
+  }, [commitEffect, pendingVariations]);
+
+  // Dropping or moving a step rebuilds everything after it. The redo tail is discarded, like any new edit.
+  const handleEditChain = useCallback(async (chain: EditHistoryState[], from: number) => {
+    if (isBusy) return;
+    setIsRendering(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const rebuilt = await rerenderChain(chain, from, async (image, step) => {
+        const prompt = step.customEffect?.prompt ?? findEffect(catalog, step.effectKey)?.prompt;
+        if (!prompt) throw new Error(`Effect "${step.effectKey}" is no longer available.`);
+        const resultBase64 = await applyEffectToEyeImage(image.split(',')[1], prompt, { signal: controller.signal });
+        return matchSourceResolution(`data:image/png;base64,${resultBase64}`, image);
+      });
+      setHistory(rebuilt);
+      setHistoryIndex(rebuilt.length - 1);
+    } catch (error) {
+      if (isCancelled(error)) return;
+      showError(fromAiError('effect', error));
+    } finally {
+      if (!controller.signal.aborted) setIsRendering(false);
+    }
+  }, [catalog, isBusy, showError]);
+
+  const activeChain = useMemo(() => history.slice(0, historyIndex + 1), [history, historyIndex]);
+
+  const handleMoveStep = useCallback((index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 1 || target >= activeChain.length) return;
+    const chain = [...activeChain];
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    handleEditChain(chain, Math.min(index, target));
+  }, [activeChain, handleEditChain]);
+
+  const handleDropStep = useCallback((index: number) => {
+    handleEditChain(activeChain.filter((_, i) => i !== index), index);
+  }, [activeChain, handleEditChain]);
+
+  // The toast's retry runs after later renders, so it must call the current handler, not the one that failed.
+  const handleApplyEffectRef = useRef(handleApplyEffect);
+  handleApplyEffectRef.current = handleApplyEffect;
   
+  const exportCost = useMemo(() => activeChain.reduce(
+    (cost, step) => cost + (!step.adjustments ? findEffect(catalog, step.effectKey)?.credits ?? 0 : 0),
+    1
+  ), [activeChain, catalog]);
+
   const handleExportClick = () => {
-    onExport(currentHistoryState.image);
+    onExport(currentHistoryState.image, history, historyIndex, exportCost);
   };
   
   const handleUndo = useCallback(() => {
-    if (canUndo) {
+    if (canUndo && !isRendering) {
       setHistoryIndex(prev => prev - 1);
     }
-  }, [canUndo]);
+  }, [canUndo, isRendering]);
 
   const handleRedo = useCallback(() => {
-    if (canRedo) {
+    if (canRedo && !isRendering) {
       setHistoryIndex(prev => prev + 1);
     }
-  }, [canRedo]);
+  }, [canRedo, isRendering]);
   
   const currentImage = useMemo(() => {
     return showOriginal ? history[0].image : currentHistoryState.image;
   }, [showOriginal, history, currentHistoryState]);
 
+  const effectLabel = (effectKey: EffectId) => {
+    if (isCustomEffectId(effectKey)) return presets.find(p => p.id === effectKey)?.name ?? '';
+    const effect = findEffect(catalog, effectKey);
+    return effect ? localize(effect.name, language) : effectKey;
+  };
+
+  const stepLabel = (step: EditHistoryState) => {
+    if (step.adjustments) return t('adjust');
+    if (step.customEffect) return step.customEffect.name;
+    return step.effectKey ? effectLabel(step.effectKey) : t('baseImage');
+  };
+
   const EffectButton: React.FC<{
-    effectKey: EffectKey;
-  }> = ({ effectKey }) => (
-    <button
-      onClick={() => handleApplyEffect(effectKey)}
-      disabled={isApplyingEffect}
-      className={`px-3 py-3 rounded-full font-semibold text-sm transition-colors text-center
-        ${selectedEffect === effectKey ? 'bg-cyan-500 text-black' : 'bg-gray-700 text-white'}
-        ${isApplyingEffect ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-600 active:bg-cyan-700'}
-      `}
-    >
-      {t(effectKey)}
-    </button>
-  );
+    effectKey: EffectId;
+    effect?: EffectDefinition;
+  }> = ({ effectKey, effect }) => {
+    const locked = !!effect?.proOnly && !isPro;
+    return (
+      <button
+        onClick={() => handleApplyEffect(effectKey)}
+        disabled={isBusy || locked}
+        className={`relative px-3 py-3 rounded-full font-semibold text-sm transition-colors text-center flex items-center justify-center space-x-2
+          ${selectedEffect === effectKey ? 'bg-cyan-500 text-black' : 'bg-gray-700 text-white'}
+          ${isBusy || locked ? 'opacity-50 cursor-not-allowed' : 'hover:bg-cyan-600 active:bg-cyan-700'}
+        `}
+      >
+        {effect && <img src={effect.thumbnail} alt="" className="w-5 h-5 rounded-full flex-shrink-0" />}
+        <span className="truncate">{effectLabel(effectKey)}</span>
+        {effect?.proOnly && <span className="text-[10px] font-bold text-amber-300">{t('proBadge')}</span>}
+        {effect && effect.credits > 0 && <span className="text-[10px] text-gray-300">+{effect.credits}</span>}
+      </button>
+    );
+  };
 
   return (
     <div className="min-h-full w-full flex flex-col bg-black">
@@ -141,39 +414,147 @@ const EditScreen: React.FC<EditScreenProps> = ({
             <img
               src={currentImage}
               alt="Enhanced Eye"
-              className="block max-w-full max-h-full object-contain rounded-lg"
+              className={`block max-w-full max-h-full object-contain rounded-lg ${isPreviewing ? 'invisible' : ''}`}
               style={{aspectRatio: '1 / 1'}}
             />
-            {isApplyingEffect && (
+            {isPreviewing && (
+              <canvas
+                ref={previewCanvasRef}
+                className="absolute inset-0 w-full h-full object-contain rounded-lg"
+                aria-hidden="true"
+              />
+            )}
+            {isBusy && (
                 <div 
                     className="absolute inset-0 rounded-lg ring-2 ring-cyan-500 animate-pulse pointer-events-none"
                     role="status"
                 >
-                    {applyingEffectKey && <span className="sr-only">{t('applyingEffect')} {t(applyingEffectKey)}...</span>}
+                    {applyingEffectKey && <span className="sr-only">{t('applyingEffect')} {effectLabel(applyingEffectKey)}...</span>}
                 </div>
             )}
         </div>
       </main>
       
       <footer className="p-4 bg-gray-900/80 backdrop-blur-sm">
+        <div className="flex justify-center space-x-2 mb-3" role="tablist">
+          {(['effects', 'adjust', 'steps'] as const).map(panel => (
+            <button
+              key={panel}
+              role="tab"
+              aria-selected={activePanel === panel}
+              onClick={() => setActivePanel(panel)}
+              className={`px-4 py-1 rounded-full text-sm font-semibold transition-colors ${activePanel === panel ? 'bg-white text-black' : 'text-gray-300 hover:bg-gray-800'}`}
+            >
+              {t(panel === 'effects' ? 'aiEffects' : panel === 'adjust' ? 'adjust' : 'editSteps')}
+            </button>
+          ))}
+        </div>
+
         <div className="mb-4">
-            <h3 className="text-center text-lg font-semibold text-white mb-3" id="effects-list-label">{t('aiEffects')}</h3>
-            <div className="grid grid-cols-3 gap-2" role="group" aria-labelledby="effects-list-label">
-              {effectKeys.map((key) => (
-                <EffectButton key={key} effectKey={key} />
+          {activePanel === 'effects' ? (
+            <>
+              {catalogError && <p className="text-center text-sm text-red-400 mb-3">{t('effectsUnavailable')}</p>}
+              {catalog && groupEffectsByCategory(catalog).map(({ category, effects }) => (
+                <div key={category?.id ?? 'other'} className="mb-3">
+                  {category && <h4 className="text-xs uppercase tracking-wide text-gray-400 mb-2">{localize(category.name, language)}</h4>}
+                  <div className="grid grid-cols-3 gap-2" role="group" aria-label={category ? localize(category.name, language) : t('aiEffects')}>
+                    {effects.map((effect) => (
+                      <EffectButton key={effect.id} effectKey={effect.id} effect={effect} />
+                    ))}
+                  </div>
+                </div>
               ))}
-            </div>
+              <h4 className="text-xs uppercase tracking-wide text-gray-400 mb-2">{t('myEffects')}</h4>
+              <div className="grid grid-cols-3 gap-2" role="group" aria-label={t('myEffects')}>
+                {presets.map((preset) => (
+                  <EffectButton key={preset.id} effectKey={preset.id} />
+                ))}
+                <button
+                  onClick={() => setShowPresets(true)}
+                  disabled={isBusy}
+                  className="px-3 py-3 rounded-full font-semibold text-sm text-center border border-dashed border-gray-500 text-gray-300 hover:bg-gray-800 disabled:opacity-50"
+                >
+                  {t('customEffects')}
+                </button>
+              </div>
+              <label className="flex items-center justify-between text-sm text-gray-300 mt-4">
+                <span>{t('stackEffects')}</span>
+                <input
+                  type="checkbox"
+                  checked={stackEffects}
+                  disabled={isBusy}
+                  onChange={e => setStackEffects(e.target.checked)}
+                  className="w-5 h-5 accent-cyan-500"
+                />
+              </label>
+              <div className="flex items-center justify-between text-sm text-gray-300 mt-3">
+                <span>{t('variations')}</span>
+                <div className="flex space-x-1" role="group" aria-label={t('variations')}>
+                  {Array.from({ length: MAX_EFFECT_VARIATIONS }, (_, i) => i + 1).map(count => (
+                    <button
+                      key={count}
+                      onClick={() => setEffectVariations(count)}
+                      disabled={isBusy || count - 1 > credits}
+                      aria-pressed={effectVariations === count}
+                      className={`w-8 h-8 rounded-full font-semibold disabled:opacity-40 ${effectVariations === count ? 'bg-cyan-500 text-black' : 'bg-gray-700 text-white'}`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {effectVariations > 1 && <p className="text-xs text-gray-400 mt-1">{t('variationsCost')}</p>}
+              {currentBlend && blendBaseImage && (
+                <EffectBlendControls
+                  values={draftBlend ?? currentBlend}
+                  disabled={isBusy}
+                  onChange={setDraftBlend}
+                  onCommit={handleCommitBlend}
+                />
+              )}
+            </>
+          ) : activePanel === 'steps' ? (
+            <EditStepsPanel steps={activeChain} stepLabel={stepLabel} disabled={isBusy} onMove={handleMoveStep} onDrop={handleDropStep} />
+          ) : (
+            <AdjustmentsPanel
+              values={draftAdjustments ?? currentAdjustments}
+              disabled={isBusy}
+              onChange={setDraftAdjustments}
+              onCommit={handleCommitAdjustments}
+            />
+          )}
         </div>
 
         <button
           onClick={handleExportClick}
-          disabled={historyIndex === 0 || isApplyingEffect}
+          disabled={historyIndex === 0 || isBusy}
           className="w-full mt-2 bg-cyan-500 hover:bg-cyan-600 text-black font-bold py-3 px-4 rounded-full flex items-center justify-center space-x-2 transition-transform duration-200 ease-in-out transform hover:scale-105 disabled:bg-gray-600 disabled:scale-100 disabled:cursor-not-allowed"
         >
           <SparklesIcon className="w-5 h-5" />
           <span>{t('export')}</span>
+          {exportCost > 1 && <span className="text-sm font-normal">· {exportCost} {t('credits')}</span>}
         </button>
       </footer>
+
+      {pendingVariations && (
+        <VariationPicker
+          images={pendingVariations.images}
+          flagged={pendingVariations.flagged}
+          title={effectLabel(pendingVariations.effectKey)}
+          onPick={handlePickVariation}
+          onCancel={() => setPendingVariations(null)}
+        />
+      )}
+
+      {showPresets && (
+        <EffectPresetsModal
+          presets={presets}
+          onSave={savePreset}
+          onDelete={deletePreset}
+          onImport={importPresets}
+          onClose={() => setShowPresets(false)}
+        />
+      )}
     </div>
   );
 };
@@ -4,6 +4,8 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { DownloadIcon, PlayIcon, WatchIcon, ShareIcon, XIcon, IridologyIcon } from './common/Icons';
 import { useLocalization } from '../lib/localization';
 import { ComparisonSlider } from './common/Slider';
+import { useToast } from '../lib/toast';
+import { ExportError } from '../lib/errors';
 
 interface ExportScreenProps {
   beforeImage: string | null;
@@ -24,6 +26,7 @@ type AspectRatio = '1:1' | '9:16' | '16:9';
 
 const ExportScreen: React.FC<ExportScreenProps> = ({ beforeImage, afterImage, onDone, onBackToEdit, onWatchFace, onIridology }) => {
   const { t } = useLocalization();
+  const { showError, notify } = useToast();
   const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
   const [showFormatModal, setShowFormatModal] = useState(false);
   const [showAspectRatioModal, setShowAspectRatioModal] = useState(false);
@@ -71,11 +74,13 @@ const ExportScreen: React.FC<ExportScreenProps> = ({ beforeImage, afterImage, on
                 files: [file]
             });
         } else {
-             alert('Image sharing not supported on this browser. Downloading instead.');
+             notify('shareUnsupported');
              handleDownload('png');
         }
       } catch(error) {
-          console.error("Share failed:", error);
+          // Closing the share sheet rejects with AbortError; that's not a failure.
+          if (error instanceof DOMException && error.name === 'AbortError') return;
+          showError(new ExportError('exportFailedSub', error), [{ labelKey: 'tryAgain', onAction: handleShare }]);
       }
   }
 
@@ -84,7 +89,7 @@ const ExportScreen: React.FC<ExportScreenProps> = ({ beforeImage, afterImage, on
       if (supportedFormats.length > 0) {
           setShowAspectRatioModal(true);
       } else {
-          alert("Sorry, video generation is not supported on this device/browser.");
+          showError(new ExportError('videoUnsupported'));
       }
   };
 
@@ -120,8 +125,9 @@ const ExportScreen: React.FC<ExportScreenProps> = ({ beforeImage, afterImage, on
           document.body.removeChild(link);
           URL.revokeObjectURL(videoUrl);
       } catch (error) {
-          console.error("Animation generation failed:", error);
-          alert("Sorry, could not generate animation on this device.");
+          showError(new ExportError('videoFailed', error), [
+              { labelKey: 'tryAgain', onAction: () => generateAndDownloadVideo(format, aspectRatio, duration) },
+          ]);
       } finally {
           setIsGeneratingVideo(false);
       }
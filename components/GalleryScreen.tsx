@@ -1,18 +1,114 @@
-import React from 'react';
-import { HistoryItem } from '../types';
+import React, { useMemo } from 'react';
+import { EyeSide, HistoryItem } from '../types';
 import { useLocalization } from '../lib/localization';
+import { ProcessingJob } from '../services/processingQueue';
+import { InfoIcon, TrashIcon } from './common/Icons';
+import EyeBadge from './common/EyeBadge';
 
 interface GalleryScreenProps {
   history: HistoryItem[];
+  // Background enhancements that haven't reached the gallery yet.
+  jobs: ProcessingJob[];
+  onSelectItem: (item: HistoryItem) => void;
+  // Opens the iridology reading for both eyes of a pair, left first.
+  onReadPair: (pair: HistoryItem[]) => void;
+  onRetryJob: (id: string) => void;
+  onRemoveJob: (id: string) => void;
 }
 
-const GalleryScreen: React.FC<GalleryScreenProps> = ({ history }) => {
+type GalleryEntry =
+  | { kind: 'single'; item: HistoryItem }
+  | { kind: 'pair'; pairId: string; eyes: Partial<Record<EyeSide, HistoryItem>> };
+
+// The newest photo of each eye of a pair is shown together, at the position of the newer of the two.
+// Older versions (earlier exports) of a paired photo stay in the grid as single tiles.
+const groupPairs = (history: HistoryItem[]): GalleryEntry[] => {
+  const entries: GalleryEntry[] = [];
+  const pairs = new Map<string, Extract<GalleryEntry, { kind: 'pair' }>>();
+  for (const item of history) {
+    if (!item.pairId || !item.eye) {
+      entries.push({ kind: 'single', item });
+      continue;
+    }
+    let pair = pairs.get(item.pairId);
+    if (!pair) {
+      pair = { kind: 'pair', pairId: item.pairId, eyes: {} };
+      pairs.set(item.pairId, pair);
+      entries.push(pair);
+    }
+    if (pair.eyes[item.eye]) {
+      entries.push({ kind: 'single', item });
+    } else {
+      pair.eyes[item.eye] = item;
+    }
+  }
+  return entries;
+};
+
+const GalleryScreen: React.FC<GalleryScreenProps> = ({ history, jobs, onSelectItem, onReadPair, onRetryJob, onRemoveJob }) => {
   const { t } = useLocalization();
+  const entries = useMemo(() => groupPairs(history), [history]);
+
+  const renderThumbnail = (item: HistoryItem, className: string) => (
+    <button
+      key={item.id}
+      onClick={() => onSelectItem(item)}
+      className={`relative bg-gray-800 rounded-md overflow-hidden transition-transform hover:scale-105 active:scale-95 ${className}`}
+      aria-label={t('reEditPhoto')}
+    >
+      <img 
+        src={item.thumbnail} 
+        alt="Saved SnapEyes photo"
+        className="w-full h-full object-cover"
+      />
+      {item.eye && <EyeBadge eye={item.eye} className="absolute top-1 left-1" />}
+      {item.structureDrifted && (
+        <span className="absolute bottom-1 right-1 bg-amber-500/90 text-black rounded-full p-0.5" title={t('structureDrift')} aria-label={t('structureDrift')}>
+          <InfoIcon className="w-4 h-4" />
+        </span>
+      )}
+    </button>
+  );
 
   return (
     <div className="p-4 bg-gray-900 min-h-full">
       <h2 className="text-3xl font-bold text-center mb-6">{t('myGallery')}</h2>
-      {history.length === 0 ? (
+      {jobs.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-cyan-400 font-semibold mb-2 px-1">{t('processingQueue')}</h3>
+          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 gap-2">
+            {jobs.map((job) => (
+              <div key={job.id} className="relative aspect-square bg-gray-800 rounded-md p-2 flex flex-col items-center justify-center text-center text-xs">
+                {job.eye && <EyeBadge eye={job.eye} className="absolute top-1 left-1" />}
+                {job.status === 'failed' ? (
+                  <>
+                    <p className="text-red-400 mb-2">{t(job.errorKey ?? 'aiErrorUnknown')}</p>
+                    <div className="flex items-center space-x-3">
+                      <button onClick={() => onRetryJob(job.id)} className="text-cyan-300 font-semibold">{t('tryAgain')}</button>
+                      <button onClick={() => onRemoveJob(job.id)} className="text-gray-400 hover:text-white" aria-label={t('removeJob')}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-gray-300 mb-2">{t(job.status === 'running' ? 'jobRunning' : 'jobQueued')}</p>
+                    <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-cyan-500 transition-all duration-300" style={{ width: `${job.progress * 100}%` }} />
+                    </div>
+                    {job.status === 'queued' && (
+                      <button onClick={() => onRemoveJob(job.id)} className="mt-2 text-gray-400 hover:text-white" aria-label={t('removeJob')}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {history.length === 0 && jobs.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-4/5 text-center text-gray-500">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -22,16 +118,24 @@ const GalleryScreen: React.FC<GalleryScreenProps> = ({ history }) => {
         </div>
       ) : (
         <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 gap-2">
-          {history.map((item) => (
-            <div key={item.id} className="aspect-square bg-gray-800 rounded-md overflow-hidden">
-              <img 
-                src={item.thumbnail} 
-                alt="Saved SnapEyes photo"
-                className="w-full h-full object-cover"
-                onClick={() => alert('Re-editing coming soon!')}
-              />
-            </div>
-          ))}
+          {entries.map((entry) => {
+            if (entry.kind === 'single') return renderThumbnail(entry.item, 'aspect-square');
+            const { left, right } = entry.eyes;
+            return (
+              <div key={entry.pairId} className="col-span-2 relative grid grid-cols-2 gap-0.5 ring-1 ring-cyan-700 rounded-md" aria-label={t('eyePair')}>
+                {left ? renderThumbnail(left, 'aspect-square') : <div className="aspect-square bg-gray-800 rounded-md" />}
+                {right ? renderThumbnail(right, 'aspect-square') : <div className="aspect-square bg-gray-800 rounded-md" />}
+                {left && right && (
+                  <button
+                    onClick={() => onReadPair([left, right])}
+                    className="absolute bottom-1 left-1/2 -translate-x-1/2 bg-black/70 backdrop-blur-sm text-cyan-300 text-xs font-semibold px-3 py-1 rounded-full whitespace-nowrap"
+                  >
+                    {t('readBothEyes')}
+                  </button>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
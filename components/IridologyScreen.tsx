@@ -1,38 +1,77 @@
 
-import React, { useState, useCallback, useMemo } from 'react';
-import { IridologyAnalysis } from '../types';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { IridologyAnalysis, IridologySubject } from '../types';
 import { analyzeIrisForIridology } from '../services/geminiService';
+import { aiErrorMessageKey, isCancelled } from '../services/aiRequest';
 import { CameraIcon, SparklesIcon } from './common/Icons';
 import { useLocalization } from '../lib/localization';
+import { EYE_LABELS } from './common/EyeBadge';
 
 interface IridologyScreenProps {
-    enhancedImage: string | null;
+    // The iris to read, or both eyes of a pair (shown as tabs). Empty until a photo has been enhanced.
+    subjects: IridologySubject[];
+    onReenhance?: () => void;
     onGoToCapture: () => void;
+    onCaptureBothEyes?: () => void;
 }
 
-const IridologyScreen: React.FC<IridologyScreenProps> = ({ enhancedImage, onGoToCapture }) => {
+const IridologyScreen: React.FC<IridologyScreenProps> = ({ subjects, onReenhance, onGoToCapture, onCaptureBothEyes }) => {
     const { t, language } = useLocalization();
+    const [selected, setSelected] = useState(0);
     const [isLoading, setIsLoading] = useState(false);
-    const [analysis, setAnalysis] = useState<IridologyAnalysis | null>(null);
+    // Readings by subject index, so switching between the eyes of a pair keeps both.
+    const [analyses, setAnalyses] = useState<Record<number, IridologyAnalysis>>({});
     const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const subject = subjects[selected] ?? subjects[0];
+    const enhancedImage = subject?.image ?? null;
+    const structureDrifted = !!subject?.structureDrifted;
+    const analysis = analyses[selected] ?? null;
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    useEffect(() => {
+        abortControllerRef.current?.abort();
+        setSelected(0);
+        setAnalyses({});
+        setError(null);
+        setIsLoading(false);
+    }, [subjects]);
+
+    const handleSelect = useCallback((index: number) => {
+        abortControllerRef.current?.abort();
+        setSelected(index);
+        setError(null);
+        setIsLoading(false);
+    }, []);
 
     const handleAnalyze = useCallback(async () => {
-        if (!enhancedImage) return;
+        if (!subject) return;
+        const index = selected;
 
         setIsLoading(true);
         setError(null);
-        setAnalysis(null);
+        setAnalyses(current => {
+            const { [index]: _previous, ...rest } = current;
+            return rest;
+        });
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
 
         try {
-            const base64Data = enhancedImage.split(',')[1];
-            const result = await analyzeIrisForIridology(base64Data, language);
-            setAnalysis(result);
+            const base64Data = subject.image.split(',')[1];
+            const result = await analyzeIrisForIridology(base64Data, language, subject.eye, { signal: controller.signal });
+            setAnalyses(current => ({ ...current, [index]: result }));
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+            if (isCancelled(err)) return;
+            console.error("Iridology analysis failed:", err);
+            setError(t(aiErrorMessageKey(err)));
         } finally {
-            setIsLoading(false);
+            if (!controller.signal.aborted) setIsLoading(false);
         }
-    }, [enhancedImage, language]);
+    }, [subject, selected, language, t]);
 
     const practicalTips = useMemo(() => {
         if (!analysis) return [];
@@ -42,6 +81,17 @@ const IridologyScreen: React.FC<IridologyScreenProps> = ({ enhancedImage, onGoTo
         return [...new Set(allTips)]; // Get unique tips
     }, [analysis]);
 
+    const driftWarning = structureDrifted && (
+        <div className="bg-amber-500/10 border border-amber-500/50 text-amber-200 text-sm p-4 rounded-lg mb-6 text-left max-w-sm" role="alert">
+            <p>{t('structureDriftIridology')}</p>
+            {onReenhance && (
+                <button onClick={onReenhance} className="mt-2 font-semibold text-amber-300 underline">
+                    {t('reEnhance')}
+                </button>
+            )}
+        </div>
+    );
+
     const renderContent = () => {
         if (!enhancedImage) {
             return (
@@ -57,6 +107,14 @@ const IridologyScreen: React.FC<IridologyScreenProps> = ({ enhancedImage, onGoTo
                     >
                         {t('captureYourEyepic')}
                     </button>
+                    {onCaptureBothEyes && (
+                        <button
+                            onClick={onCaptureBothEyes}
+                            className="mt-3 text-cyan-300 font-semibold hover:text-cyan-200"
+                        >
+                            {t('captureBothEyesForReading')}
+                        </button>
+                    )}
                 </div>
             );
         }
@@ -110,6 +168,8 @@ const IridologyScreen: React.FC<IridologyScreenProps> = ({ enhancedImage, onGoTo
                          <p className="text-cyan-400">{analysis.constitutionalType} {t('constitution')}</p>
                     </div>
 
+                    {driftWarning}
+
                     <div className="bg-gray-800 p-4 rounded-lg">
                         <h3 className="font-semibold text-white mb-2">{t('overallSummary')}</h3>
                         <p className="text-gray-300 text-sm leading-relaxed">{analysis.overallSummary}</p>
@@ -227,6 +287,7 @@ const IridologyScreen: React.FC<IridologyScreenProps> = ({ enhancedImage, onGoTo
                 <img src={enhancedImage} alt="Your Iris" className="w-48 h-48 rounded-full object-cover mb-6 shadow-2xl shadow-cyan-500/20" />
                 <h3 className="text-xl font-bold text-white mb-2">{t('readyForAnalysis')}</h3>
                 <p className="text-gray-400 mb-6 max-w-sm">{t('readyForAnalysisSub')}</p>
+                {driftWarning}
                 <button
                     onClick={handleAnalyze}
                     className="bg-cyan-500 hover:bg-cyan-600 text-black font-bold py-4 px-8 rounded-full transition-transform transform hover:scale-105 flex items-center space-x-2"
@@ -240,6 +301,23 @@ const IridologyScreen: React.FC<IridologyScreenProps> = ({ enhancedImage, onGoTo
 
     return (
         <div className="bg-gray-900 min-h-full text-gray-300">
+            {subjects.length > 1 && (
+                <div className="px-6 pt-6">
+                    <div className="bg-gray-800 p-1 rounded-lg flex max-w-sm mx-auto" role="tablist">
+                        {subjects.map((s, index) => (
+                            <button
+                                key={index}
+                                role="tab"
+                                aria-selected={index === selected}
+                                onClick={() => handleSelect(index)}
+                                className={`flex-1 py-2 rounded-md font-semibold transition-colors ${index === selected ? 'bg-cyan-500 text-black' : 'text-white'}`}
+                            >
+                                {s.eye ? t(EYE_LABELS[s.eye]) : index + 1}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
             {renderContent()}
         </div>
     );
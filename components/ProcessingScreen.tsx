@@ -1,142 +1,75 @@
-
 import React, { useEffect, useRef, useState } from 'react';
-import { enhanceEyeImage } from '../services/geminiService';
+import { isCancelled } from '../services/aiRequest';
+import { ProcessingProgress, ProcessingStage, runProcessingPipeline } from '../services/processingPipeline';
 import { EyeIcon } from './common/Icons';
+import EyeBadge from './common/EyeBadge';
 import { useLocalization } from '../lib/localization';
-import { CropData } from '../types';
+import { CropData, EyeSide } from '../types';
+import { StructureCheck } from '../lib/structureCheck';
 
 interface ProcessingScreenProps {
   originalImage: string;
   cropData: CropData;
-  onComplete: (composedBeforeDataUrl: string, enhancedImageDataUrl:string) => void;
-  onError: () => void;
+  // `structureCheck` compares the enhanced iris with the crop it came from; null if it couldn't run.
+  onComplete: (composedBeforeDataUrl: string, enhancedImageDataUrl:string, structureCheck: StructureCheck | null) => void;
+  onError: (error: unknown) => void;
+  // Stops processing; the parent goes back to the crop, which it still has.
+  onCancel: () => void;
+  // Ignore a cached enhancement, e.g. when retrying one that was flagged.
+  refresh?: boolean;
+  // Set during a both-eyes session.
+  eye?: EyeSide;
 }
 
-// This function creates a tight, square crop of the iris.
-// It's used as input for the enhancement AI.
-const cropImage = (originalImageSrc: string, irisData: CropData): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            
-            const sourceX = (irisData.centerX * img.naturalWidth) - (irisData.radius * img.naturalWidth);
-            const sourceY = (irisData.centerY * img.naturalHeight) - (irisData.radius * img.naturalWidth);
-            const size = (irisData.radius * img.naturalWidth) * 2;
-
-            canvas.width = 512;
-            canvas.height = 512;
-            const ctx = canvas.getContext('2d');
-            
-            if (ctx) {
-                ctx.drawImage(img, sourceX, sourceY, size, size, 0, 0, 512, 512);
-                const dataUrl = canvas.toDataURL('image/jpeg', 0.95);
-                resolve(dataUrl);
-            } else {
-                reject(new Error('Canvas 2D context not available'));
-            }
-        };
-        img.onerror = () => reject(new Error('Could not load image for cropping'));
-        img.src = originalImageSrc;
-    });
-};
-
-
-// This function creates a "before" image for the comparison slider.
-// It centers the un-enhanced iris on a black background to match the composition of the enhanced "after" image.
-const createComposedBeforeImage = (originalImageSrc: string, irisData: CropData): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            canvas.width = 512;
-            canvas.height = 512;
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return reject(new Error('Canvas context not available'));
-            
-            // Fill background with black
-            ctx.fillStyle = 'black';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-            // Scale the iris to fill about 90% of the canvas, matching the enhanced image's composition.
-            const scale = 0.9;
-            const destDiameter = canvas.width * scale;
-            const destRadius = destDiameter / 2;
-
-            // Define the source region from the original image
-            const sourceRadius = irisData.radius * img.naturalWidth;
-            const sourceDiameter = sourceRadius * 2;
-            const sourceX = (irisData.centerX * img.naturalWidth) - sourceRadius;
-            const sourceY = (irisData.centerY * img.naturalHeight) - sourceRadius;
-
-            // Create a circular clipping path in the center of the destination canvas
-            ctx.save();
-            ctx.beginPath();
-            ctx.arc(canvas.width / 2, canvas.height / 2, destRadius, 0, Math.PI * 2, true);
-            ctx.clip();
-
-            // Draw the source iris region into the clipped circle
-            ctx.drawImage(
-                img, 
-                sourceX, 
-                sourceY, 
-                sourceDiameter, 
-                sourceDiameter, 
-                (canvas.width - destDiameter) / 2, 
-                (canvas.height - destDiameter) / 2, 
-                destDiameter, 
-                destDiameter
-            );
-            
-            ctx.restore();
-
-            resolve(canvas.toDataURL('image/jpeg', 0.95));
-        };
-        img.onerror = () => reject(new Error('Could not load image for composing'));
-        img.src = originalImageSrc;
-    });
+const STAGE_LABELS: Record<ProcessingStage, 'stageCropping' | 'stageUploading' | 'stageEnhancing' | 'stageNormalizing' | 'stageComposing'> = {
+  cropping: 'stageCropping',
+  uploading: 'stageUploading',
+  enhancing: 'stageEnhancing',
+  normalizing: 'stageNormalizing',
+  composing: 'stageComposing',
 };
 
-
-const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ originalImage, cropData, onComplete, onError }) => {
-  const hasProcessed = useRef(false);
+const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ originalImage, cropData, onComplete, onError, onCancel, refresh = false, eye }) => {
   const { t } = useLocalization();
-  const [statusText, setStatusText] = useState(t('enhancing'));
+  const [progress, setProgress] = useState<ProcessingProgress>({ stage: 'cropping', progress: 0, elapsedMs: 0 });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Kept in refs so a parent re-render doesn't restart (and re-bill) the enhancement.
+  const onCompleteRef = useRef(onComplete);
+  const onErrorRef = useRef(onError);
+  onCompleteRef.current = onComplete;
+  onErrorRef.current = onError;
 
   useEffect(() => {
-    if (hasProcessed.current || !cropData) return;
-    hasProcessed.current = true;
+    if (!cropData) return;
+    // Leaving the screen cancels the request, so nothing resolves into an unmounted screen.
+    const controller = new AbortController();
+
+    controllerRef.current = controller;
 
     const processImage = async () => {
       try {
-        const irisData = cropData;
-
-        // Add a compositional safety margin to prevent clipping the edge of the iris.
-        const safeIrisData = {
-            ...irisData,
-            radius: irisData.radius * 0.95, // Use 95% of the detected radius.
-        };
-
-        // Step 1: Create a tight crop for the AI model using the safe detected data
-        setStatusText(t('enhancing'));
-        const tightCropDataUrl = await cropImage(originalImage, safeIrisData);
-        
-        // Step 2: Enhance the tight crop with the AI
-        const tightCropBase64Data = tightCropDataUrl.split(',')[1];
-        const enhancedBase64 = await enhanceEyeImage(tightCropBase64Data);
-        
-        // Step 3: Create a composed "before" image using the safe data for a smooth comparison slider
-        const composedBeforeDataUrl = await createComposedBeforeImage(originalImage, safeIrisData);
-
-        onComplete(composedBeforeDataUrl, `data:image/png;base64,${enhancedBase64}`);
+        const result = await runProcessingPipeline(originalImage, cropData, {
+          signal: controller.signal,
+          refresh,
+          onProgress: setProgress,
+        });
+        if (controller.signal.aborted) return;
+        onCompleteRef.current(result.composedBeforeDataUrl, result.enhancedImageDataUrl, result.structureCheck);
       } catch (error) {
-        console.error("Processing failed:", error);
-        onError();
+        if (isCancelled(error) || controller.signal.aborted) return;
+        onErrorRef.current(error);
       }
     };
 
     processImage();
-  }, [originalImage, cropData, onComplete, onError, t]);
+    return () => controller.abort();
+  }, [originalImage, cropData, refresh]);
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    onCancel();
+  };
 
   return (
     <div className="flex flex-col items-center justify-center h-full text-center p-8 bg-gray-900">
@@ -149,8 +82,27 @@ const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ originalImage, crop
             <div className="w-40 h-40 border-2 border-cyan-300 rounded-full animate-spin-slow-reverse"></div>
         </div>
       </div>
-      <h2 className="text-2xl font-bold mt-12">{statusText}</h2>
-      <p className="text-gray-300 mt-2">{statusText === t('locatingIris') ? t('locatingIrisSub') : t('enhancingSub')}</p>
+      <h2 className="text-2xl font-bold mt-12">{t('enhancing')}</h2>
+      {eye && <EyeBadge eye={eye} className="mt-2" />}
+      <p className="text-gray-300 mt-2">{t(STAGE_LABELS[progress.stage])}</p>
+      <div
+        className="w-full max-w-xs h-2 bg-gray-700 rounded-full mt-6 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress.progress * 100)}
+      >
+        <div className="h-full bg-cyan-500 transition-all duration-300" style={{ width: `${progress.progress * 100}%` }} />
+      </div>
+      <p className="text-sm text-gray-400 mt-2 tabular-nums">
+        {Math.round(progress.progress * 100)}% · {Math.floor(progress.elapsedMs / 1000)}s
+      </p>
+      <button
+        onClick={handleCancel}
+        className="mt-8 px-6 py-2 border border-gray-600 rounded-full text-gray-300 hover:bg-gray-800"
+      >
+        {t('cancelProcessing')}
+      </button>
       <style>{`
         @keyframes spin-slow {
           from { transform: rotate(0deg); }
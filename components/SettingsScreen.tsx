@@ -1,9 +1,14 @@
 import React from 'react';
 import { MailIcon, DocumentTextIcon, TrashIcon, InfoIcon } from './common/Icons';
 import { useLocalization } from '../lib/localization';
+import { WORKING_RESOLUTIONS, usePreference } from '../lib/preferences';
+import { useToast } from '../lib/toast';
 
 const SettingsScreen: React.FC = () => {
   const { t, language, setLanguage } = useLocalization();
+  const { notify } = useToast();
+  const [cloudIrisRefinement, setCloudIrisRefinement] = usePreference('cloudIrisRefinement');
+  const [workingResolution, setWorkingResolution] = usePreference('workingResolution');
   
   return (
     <div className="p-6 bg-gray-900 min-h-full">
@@ -28,11 +33,37 @@ const SettingsScreen: React.FC = () => {
           </div>
         </div>
 
+        <div>
+          <h3 className="text-cyan-400 font-semibold mb-2 px-2">{t('detection')}</h3>
+          <SettingsToggle
+            label={t('cloudRefinement')}
+            description={t('cloudRefinementSub')}
+            checked={cloudIrisRefinement}
+            onChange={setCloudIrisRefinement}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-cyan-400 font-semibold mb-2 px-2">{t('imageQuality')}</h3>
+          <div className="bg-gray-800 p-1 rounded-lg flex">
+            {WORKING_RESOLUTIONS.map(resolution => (
+              <button
+                key={resolution}
+                onClick={() => setWorkingResolution(resolution)}
+                className={`flex-1 py-2 rounded-md font-semibold transition-colors ${workingResolution === resolution ? 'bg-cyan-500 text-black' : 'text-white'}`}
+              >
+                {resolution}px
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-400 mt-2 px-2">{t('imageQualitySub')}</p>
+        </div>
+
         <div className="space-y-2 pt-4">
             <SettingsItem icon={<MailIcon className="w-6 h-6 text-cyan-400" />} label={t('contactSupport')} onClick={() => window.location.href = 'mailto:support@snapeyes.app'} />
-            <SettingsItem icon={<DocumentTextIcon className="w-6 h-6 text-cyan-400" />} label={t('privacyPolicy')} onClick={() => alert('Link to privacy policy would go here.')} />
-            <SettingsItem icon={<TrashIcon className="w-6 h-6 text-red-400" />} label={t('deleteData')} onClick={() => alert('A request would be sent to delete your data.')} />
-            <SettingsItem icon={<InfoIcon className="w-6 h-6 text-cyan-400" />} label={t('termsAbout')} onClick={() => alert('App Version 1.0.0')} />
+            <SettingsItem icon={<DocumentTextIcon className="w-6 h-6 text-cyan-400" />} label={t('privacyPolicy')} onClick={() => notify('privacyPolicyInfo')} />
+            <SettingsItem icon={<TrashIcon className="w-6 h-6 text-red-400" />} label={t('deleteData')} onClick={() => notify('deleteDataInfo')} />
+            <SettingsItem icon={<InfoIcon className="w-6 h-6 text-cyan-400" />} label={t('termsAbout')} onClick={() => notify('aboutInfo')} />
         </div>
       </div>
 
@@ -54,4 +85,21 @@ const SettingsItem: React.FC<{icon: React.ReactNode, label: string, onClick: ()
   </button>
 );
 
+const SettingsToggle: React.FC<{label: string, description: string, checked: boolean, onChange: (checked: boolean) => void}> = ({ label, description, checked, onChange }) => (
+  <button
+    onClick={() => onChange(!checked)}
+    role="switch"
+    aria-checked={checked}
+    className="w-full bg-gray-800 hover:bg-gray-700 p-4 rounded-lg flex items-center space-x-4 text-left transition-colors"
+  >
+    <div className="flex-grow">
+      <span className="block">{label}</span>
+      <span className="block text-xs text-gray-400 mt-1">{description}</span>
+    </div>
+    <div className={`w-11 h-6 flex-shrink-0 rounded-full p-0.5 transition-colors ${checked ? 'bg-cyan-500' : 'bg-gray-600'}`}>
+      <div className={`w-5 h-5 bg-white rounded-full transition-transform ${checked ? 'translate-x-5' : ''}`} />
+    </div>
+  </button>
+);
+
 export default SettingsScreen;
\ No newline at end of file
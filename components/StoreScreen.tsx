@@ -1,13 +1,16 @@
 import React from 'react';
 import { useLocalization } from '../lib/localization';
+import { useToast } from '../lib/toast';
 
 interface StoreScreenProps {
     credits: number;
     setCredits: React.Dispatch<React.SetStateAction<number>>;
+    onSubscribePro: () => void;
 }
 
-const StoreScreen: React.FC<StoreScreenProps> = ({ credits, setCredits }) => {
+const StoreScreen: React.FC<StoreScreenProps> = ({ credits, setCredits, onSubscribePro }) => {
   const { t } = useLocalization();
+  const { notify } = useToast();
 
   return (
     <div className="p-6 bg-gray-900 min-h-full">
@@ -44,7 +47,8 @@ const StoreScreen: React.FC<StoreScreenProps> = ({ credits, setCredits }) => {
           description={t('proSub')}
           onPurchase={() => {
             setCredits(c => c + 10);
-            alert("Subscribed to SnapEyes Pro! (This is a simulation)");
+            onSubscribePro();
+            notify('proSubscribed');
           }}
           isPro
         />
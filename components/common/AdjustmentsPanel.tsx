@@ -0,0 +1,76 @@
+import React from 'react';
+import { Adjustments } from '../../types';
+import { useLocalization } from '../../lib/localization';
+import { ADJUSTMENT_KEYS, ADJUSTMENT_RANGES, AdjustmentKey, NEUTRAL_ADJUSTMENTS, isNeutral } from '../../lib/adjustments';
+
+interface AdjustmentsPanelProps {
+  values: Adjustments;
+  disabled?: boolean;
+  // Called on every slider move, for the live preview.
+  onChange: (values: Adjustments) => void;
+  // Called when a slider is released, to record an undo step.
+  onCommit: (values: Adjustments) => void;
+}
+
+const LABEL_KEYS = {
+  exposure: 'adjustExposure',
+  contrast: 'adjustContrast',
+  saturation: 'adjustSaturation',
+  vibrance: 'adjustVibrance',
+  clarity: 'adjustClarity',
+  vignette: 'adjustVignette',
+  hue: 'adjustHue',
+} as const satisfies Record<AdjustmentKey, string>;
+
+const formatValue = (key: AdjustmentKey, value: number) => {
+  if (key === 'exposure') return `${value > 0 ? '+' : ''}${value.toFixed(2)} EV`;
+  if (key === 'hue') return `${value}°`;
+  return `${value > 0 ? '+' : ''}${value}`;
+};
+
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ values, disabled = false, onChange, onCommit }) => {
+  const { t } = useLocalization();
+
+  const commit = (e: React.SyntheticEvent<HTMLInputElement>, key: AdjustmentKey) => {
+    onCommit({ ...values, [key]: Number(e.currentTarget.value) });
+  };
+
+  return (
+    <div className="space-y-3">
+      {ADJUSTMENT_KEYS.map(key => {
+        const range = ADJUSTMENT_RANGES[key];
+        const id = `adjust-${key}`;
+        return (
+          <div key={key}>
+            <div className="flex justify-between text-sm mb-1">
+              <label htmlFor={id} className="text-gray-300">{t(LABEL_KEYS[key])}</label>
+              <span className="text-gray-400 tabular-nums">{formatValue(key, values[key])}</span>
+            </div>
+            <input
+              id={id}
+              type="range"
+              min={range.min}
+              max={range.max}
+              step={range.step}
+              value={values[key]}
+              disabled={disabled}
+              onChange={e => onChange({ ...values, [key]: Number(e.target.value) })}
+              onPointerUp={e => commit(e, key)}
+              onKeyUp={e => commit(e, key)}
+              className="w-full accent-cyan-500 disabled:opacity-50"
+            />
+          </div>
+        );
+      })}
+      <button
+        onClick={() => onCommit(NEUTRAL_ADJUSTMENTS)}
+        disabled={disabled || isNeutral(values)}
+        className="w-full py-2 text-sm border border-gray-600 rounded-full hover:bg-gray-800 disabled:text-gray-600 disabled:border-gray-700 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+      >
+        {t('resetAdjustments')}
+      </button>
+    </div>
+  );
+};
+
+export default AdjustmentsPanel;
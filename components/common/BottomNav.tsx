@@ -7,9 +7,13 @@ import { useLocalization } from '../../lib/localization';
 interface BottomNavProps {
   activeTab: AppScreen;
   setActiveTab: (tab: AppScreen) => void;
+  // New results in the gallery the user hasn't seen yet.
+  galleryBadge?: number;
+  // Background enhancements are still queued or running.
+  galleryBusy?: boolean;
 }
 
-const BottomNav: React.FC<BottomNavProps> = ({ activeTab, setActiveTab }) => {
+const BottomNav: React.FC<BottomNavProps> = ({ activeTab, setActiveTab, galleryBadge = 0, galleryBusy = false }) => {
   const { t } = useLocalization();
   
   const navItems = [
@@ -36,7 +40,17 @@ const BottomNav: React.FC<BottomNavProps> = ({ activeTab, setActiveTab }) => {
              </div>
           ) : (
              <>
-                {item.icon}
+                <span className="relative">
+                  {item.icon}
+                  {item.screen === AppScreen.GALLERY && galleryBadge > 0 && (
+                    <span className="absolute -top-1 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-cyan-500 text-black text-xs font-bold flex items-center justify-center" aria-label={t('newResults')}>
+                      {galleryBadge}
+                    </span>
+                  )}
+                  {item.screen === AppScreen.GALLERY && galleryBadge === 0 && galleryBusy && (
+                    <span className="absolute -top-0.5 -right-0.5 w-2.5 h-2.5 rounded-full bg-cyan-400 animate-pulse" aria-label={t('processingInBackground')} />
+                  )}
+                </span>
                 <span className="text-xs mt-1">{item.label}</span>
              </>
           )}
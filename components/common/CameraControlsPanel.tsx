@@ -0,0 +1,170 @@
+import React from 'react';
+import { useLocalization } from '../../lib/localization';
+import { CameraCapabilities, CameraResolution, CameraSettings, NumericRange } from '../../lib/cameraControls';
+import { XIcon } from './Icons';
+
+interface CameraControlsPanelProps {
+  capabilities: CameraCapabilities;
+  settings: CameraSettings;
+  // The picked resolution; null means the default.
+  resolution: CameraResolution | null;
+  onChange: (changes: CameraSettings) => void;
+  onResolutionChange: (resolution: CameraResolution | null) => void;
+  onClose: () => void;
+}
+
+// Modes the camera runs by itself; the first one supported is used for "Auto".
+const AUTO_MODES = ['continuous', 'single-shot'];
+
+const autoModeOf = (modes: string[]) => AUTO_MODES.find(mode => modes.includes(mode));
+
+const RangeControl: React.FC<{ id: string; label: string; range: NumericRange; value: number | undefined; format: (value: number) => string; onChange: (value: number) => void }> = ({ id, label, range, value, format, onChange }) => {
+  const current = value ?? range.min;
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <label htmlFor={id} className="text-gray-300">{label}</label>
+        <span className="text-gray-400 tabular-nums">{format(current)}</span>
+      </div>
+      <input
+        id={id}
+        type="range"
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        value={current}
+        onChange={e => onChange(Number(e.target.value))}
+        className="w-full accent-cyan-500"
+      />
+    </div>
+  );
+};
+
+const ModeToggle: React.FC<{ label: string; manual: boolean; onChange: (manual: boolean) => void }> = ({ label, manual, onChange }) => {
+  const { t } = useLocalization();
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-gray-300">{label}</span>
+      <div className="bg-gray-800 p-0.5 rounded-md flex">
+        {[false, true].map(isManual => (
+          <button
+            key={String(isManual)}
+            onClick={() => onChange(isManual)}
+            className={`px-3 py-1 rounded font-semibold transition-colors ${manual === isManual ? 'bg-cyan-500 text-black' : 'text-white'}`}
+          >
+            {t(isManual ? 'cameraManual' : 'cameraAuto')}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Hardware camera settings for the capture screen. Only the controls the camera supports are shown.
+const CameraControlsPanel: React.FC<CameraControlsPanelProps> = ({ capabilities, settings, resolution, onChange, onResolutionChange, onClose }) => {
+  const { t } = useLocalization();
+  const autoFocusMode = autoModeOf(capabilities.focusModes);
+  const autoWhiteBalanceMode = autoModeOf(capabilities.whiteBalanceModes);
+  const manualFocus = settings.focusMode === 'manual';
+  const manualWhiteBalance = settings.whiteBalanceMode === 'manual';
+
+  return (
+    <div className="w-full max-w-sm bg-black/70 backdrop-blur-md rounded-2xl p-4 space-y-3 text-white">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">{t('cameraControls')}</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label={t('dismiss')}>
+          <XIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {capabilities.torch && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-300">{t('cameraTorch')}</span>
+          <button
+            onClick={() => onChange({ torch: !settings.torch })}
+            className={`px-3 py-1 rounded-md font-semibold transition-colors ${settings.torch ? 'bg-cyan-500 text-black' : 'bg-gray-800 text-white'}`}
+            aria-pressed={!!settings.torch}
+          >
+            {t(settings.torch ? 'cameraOn' : 'cameraOff')}
+          </button>
+        </div>
+      )}
+
+      {capabilities.zoom && (
+        <RangeControl
+          id="camera-zoom"
+          label={t('cameraZoom')}
+          range={capabilities.zoom}
+          value={settings.zoom}
+          format={value => `${value.toFixed(1)}×`}
+          onChange={zoom => onChange({ zoom })}
+        />
+      )}
+
+      {autoFocusMode && capabilities.focusModes.includes('manual') && (
+        <>
+          <ModeToggle label={t('cameraFocus')} manual={manualFocus} onChange={manual => onChange({ focusMode: manual ? 'manual' : autoFocusMode })} />
+          {manualFocus && capabilities.focusDistance && (
+            <RangeControl
+              id="camera-focus"
+              label={t('cameraFocusDistance')}
+              range={capabilities.focusDistance}
+              value={settings.focusDistance}
+              format={value => `${(value * 100).toFixed(0)} cm`}
+              onChange={focusDistance => onChange({ focusMode: 'manual', focusDistance })}
+            />
+          )}
+        </>
+      )}
+
+      {capabilities.exposureCompensation && (
+        <RangeControl
+          id="camera-exposure"
+          label={t('cameraExposure')}
+          range={capabilities.exposureCompensation}
+          value={settings.exposureCompensation ?? 0}
+          format={value => `${value > 0 ? '+' : ''}${value.toFixed(1)} EV`}
+          onChange={exposureCompensation => onChange({ exposureCompensation })}
+        />
+      )}
+
+      {autoWhiteBalanceMode && capabilities.whiteBalanceModes.includes('manual') && (
+        <>
+          <ModeToggle label={t('cameraWhiteBalance')} manual={manualWhiteBalance} onChange={manual => onChange({ whiteBalanceMode: manual ? 'manual' : autoWhiteBalanceMode })} />
+          {manualWhiteBalance && capabilities.colorTemperature && (
+            <RangeControl
+              id="camera-white-balance"
+              label={t('cameraColorTemperature')}
+              range={capabilities.colorTemperature}
+              value={settings.colorTemperature}
+              format={value => `${Math.round(value)} K`}
+              onChange={colorTemperature => onChange({ whiteBalanceMode: 'manual', colorTemperature })}
+            />
+          )}
+        </>
+      )}
+
+      {capabilities.resolutions.length > 1 && (
+        <div className="flex items-center justify-between text-sm">
+          <label htmlFor="camera-resolution" className="text-gray-300">{t('cameraResolution')}</label>
+          <select
+            id="camera-resolution"
+            value={resolution ? `${resolution.width}x${resolution.height}` : ''}
+            onChange={e => {
+              const picked = capabilities.resolutions.find(r => `${r.width}x${r.height}` === e.target.value);
+              onResolutionChange(picked ?? null);
+            }}
+            className="bg-gray-800 text-white rounded-md px-2 py-1"
+          >
+            <option value="">{t('cameraAuto')}</option>
+            {capabilities.resolutions.map(r => (
+              <option key={`${r.width}x${r.height}`} value={`${r.width}x${r.height}`}>{r.width} × {r.height}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraControlsPanel;
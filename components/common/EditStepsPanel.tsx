@@ -0,0 +1,65 @@
+import React from 'react';
+import { EditHistoryState } from '../../types';
+import { useLocalization } from '../../lib/localization';
+import { ArrowLeftIcon, TrashIcon } from './Icons';
+
+interface EditStepsPanelProps {
+  // The active chain, base image first.
+  steps: EditHistoryState[];
+  stepLabel: (step: EditHistoryState) => string;
+  disabled?: boolean;
+  onMove: (index: number, direction: -1 | 1) => void;
+  onDrop: (index: number) => void;
+}
+
+const EditStepsPanel: React.FC<EditStepsPanelProps> = ({ steps, stepLabel, disabled = false, onMove, onDrop }) => {
+  const { t } = useLocalization();
+
+  if (steps.length <= 1) {
+    return <p className="text-center text-sm text-gray-400 py-4">{t('noEditSteps')}</p>;
+  }
+
+  return (
+    <ol className="space-y-2 max-h-64 overflow-y-auto" aria-label={t('editSteps')}>
+      {steps.map((step, index) => (
+        <li key={index} className="flex items-center space-x-3 bg-gray-800 rounded-lg p-2">
+          <img src={step.image} alt="" className="w-12 h-12 rounded object-cover flex-shrink-0" />
+          <div className="flex-grow min-w-0">
+            <span className="block text-sm font-semibold text-white truncate">{stepLabel(step)}</span>
+            {step.stacked && <span className="block text-xs text-gray-400">{t('stackedStep')}</span>}
+          </div>
+          {index > 0 && (
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => onMove(index, -1)}
+                disabled={disabled || index === 1}
+                className="p-2 rounded-full hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent"
+                aria-label={t('moveStepUp')}
+              >
+                <ArrowLeftIcon className="w-4 h-4 rotate-90" />
+              </button>
+              <button
+                onClick={() => onMove(index, 1)}
+                disabled={disabled || index === steps.length - 1}
+                className="p-2 rounded-full hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent"
+                aria-label={t('moveStepDown')}
+              >
+                <ArrowLeftIcon className="w-4 h-4 -rotate-90" />
+              </button>
+              <button
+                onClick={() => onDrop(index)}
+                disabled={disabled}
+                className="p-2 rounded-full text-red-400 hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent"
+                aria-label={t('dropStep')}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default EditStepsPanel;
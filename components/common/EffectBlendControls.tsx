@@ -0,0 +1,59 @@
+import React from 'react';
+import { EffectBlend } from '../../types';
+import { useLocalization } from '../../lib/localization';
+
+type BlendValues = Omit<EffectBlend, 'output'>;
+
+interface EffectBlendControlsProps {
+  values: BlendValues;
+  disabled?: boolean;
+  // Called on every slider move, for the live preview.
+  onChange: (values: BlendValues) => void;
+  // Called when a slider is released or the mask is toggled.
+  onCommit: (values: BlendValues) => void;
+}
+
+const EffectBlendControls: React.FC<EffectBlendControlsProps> = ({ values, disabled = false, onChange, onCommit }) => {
+  const { t } = useLocalization();
+
+  const slider = (key: 'intensity' | 'coreRadius', label: string, min: number, max: number, step: number, display: string) => (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <label htmlFor={`blend-${key}`} className="text-gray-300">{label}</label>
+        <span className="text-gray-400 tabular-nums">{display}</span>
+      </div>
+      <input
+        id={`blend-${key}`}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={values[key]}
+        disabled={disabled}
+        onChange={e => onChange({ ...values, [key]: Number(e.target.value) })}
+        onPointerUp={e => onCommit({ ...values, [key]: Number(e.currentTarget.value) })}
+        onKeyUp={e => onCommit({ ...values, [key]: Number(e.currentTarget.value) })}
+        className="w-full accent-cyan-500 disabled:opacity-50"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 mt-4">
+      {slider('intensity', t('effectIntensity'), 0, 100, 1, `${values.intensity}%`)}
+      <label className="flex items-center justify-between text-sm text-gray-300">
+        <span>{t('protectIris')}</span>
+        <input
+          type="checkbox"
+          checked={values.protectCore}
+          disabled={disabled}
+          onChange={e => onCommit({ ...values, protectCore: e.target.checked })}
+          className="w-5 h-5 accent-cyan-500"
+        />
+      </label>
+      {values.protectCore && slider('coreRadius', t('protectedArea'), 0.05, 0.5, 0.01, `${Math.round(values.coreRadius * 200)}%`)}
+    </div>
+  );
+};
+
+export default EffectBlendControls;
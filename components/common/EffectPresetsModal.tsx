@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { EffectPreset } from '../../types';
+import { useLocalization } from '../../lib/localization';
+import { useToast } from '../../lib/toast';
+import { MAX_PROMPT_LENGTH, newPresetId, parsePresets, serializePresets } from '../../lib/effectPresets';
+import { CUSTOM_EFFECT_TEMPLATE } from '../../services/prompts';
+import { DownloadIcon, TrashIcon, UploadIcon, XIcon } from './Icons';
+
+interface EffectPresetsModalProps {
+  presets: EffectPreset[];
+  onSave: (preset: EffectPreset) => void;
+  onDelete: (id: EffectPreset['id']) => void;
+  onImport: (presets: EffectPreset[]) => number;
+  onClose: () => void;
+}
+
+const EffectPresetsModal: React.FC<EffectPresetsModalProps> = ({ presets, onSave, onDelete, onImport, onClose }) => {
+  const { t } = useLocalization();
+  const { notify } = useToast();
+  const [editing, setEditing] = useState<EffectPreset | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startNew = () => setEditing({ id: newPresetId(), name: '', prompt: CUSTOM_EFFECT_TEMPLATE });
+
+  const handleSave = () => {
+    if (!editing) return;
+    onSave({ ...editing, name: editing.name.trim(), prompt: editing.prompt.trim() });
+    setEditing(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializePresets(presets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'snapeyes-effects.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const added = onImport(parsePresets(await file.text()));
+      notify(added > 0 ? 'presetsImported' : 'presetsImportedNone');
+    } catch (error) {
+      console.warn('Could not import presets:', error);
+      notify('presetsImportFailed');
+    }
+  };
+
+  const canSave = editing !== null && editing.name.trim().length > 0 && editing.prompt.trim().length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 p-6 rounded-2xl w-full max-w-md border border-gray-800 shadow-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-xl font-bold text-white">{editing ? t('editCustomEffect') : t('customEffects')}</h3>
+          <button onClick={editing ? () => setEditing(null) : onClose} className="text-gray-400 hover:text-white" aria-label={t('dismiss')}>
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="preset-name" className="block text-sm text-gray-300 mb-1">{t('presetName')}</label>
+              <input
+                id="preset-name"
+                value={editing.name}
+                maxLength={60}
+                onChange={e => setEditing({ ...editing, name: e.target.value })}
+                className="w-full bg-gray-800 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <label htmlFor="preset-prompt" className="text-sm text-gray-300">{t('presetPrompt')}</label>
+                <button onClick={() => setEditing({ ...editing, prompt: CUSTOM_EFFECT_TEMPLATE })} className="text-xs text-cyan-400 hover:underline">
+                  {t('useTemplate')}
+                </button>
+              </div>
+              <textarea
+                id="preset-prompt"
+                value={editing.prompt}
+                maxLength={MAX_PROMPT_LENGTH}
+                rows={8}
+                onChange={e => setEditing({ ...editing, prompt: e.target.value })}
+                className="w-full bg-gray-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">{t('presetPromptHint')}</p>
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="w-full bg-cyan-500 hover:bg-cyan-600 text-black font-bold py-3 px-4 rounded-full disabled:bg-gray-600 disabled:cursor-not-allowed"
+            >
+              {t('savePreset')}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {presets.length === 0 && <p className="text-sm text-gray-400">{t('noPresets')}</p>}
+            {presets.map(preset => (
+              <div key={preset.id} className="flex items-center bg-gray-800 rounded-xl">
+                <button onClick={() => setEditing(preset)} className="flex-grow min-w-0 p-4 text-left hover:bg-gray-700 rounded-l-xl">
+                  <span className="block font-bold text-cyan-400 truncate">{preset.name}</span>
+                  <span className="block text-xs text-gray-500 truncate">{preset.prompt}</span>
+                </button>
+                <button onClick={() => onDelete(preset.id)} className="p-4 text-red-400 hover:bg-gray-700 rounded-r-xl" aria-label={t('deletePreset')}>
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
+            ))}
+            <button onClick={startNew} className="w-full bg-cyan-500 hover:bg-cyan-600 text-black font-bold py-3 px-4 rounded-full">
+              {t('newPreset')}
+            </button>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 flex items-center justify-center space-x-2 py-2 text-sm border border-gray-600 rounded-full hover:bg-gray-800"
+              >
+                <UploadIcon className="w-4 h-4" />
+                <span>{t('importPresets')}</span>
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={presets.length === 0}
+                className="flex-1 flex items-center justify-center space-x-2 py-2 text-sm border border-gray-600 rounded-full hover:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed"
+              >
+                <DownloadIcon className="w-4 h-4" />
+                <span>{t('exportPresets')}</span>
+              </button>
+            </div>
+            <input type="file" ref={fileInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EffectPresetsModal;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { EyeSide } from '../../types';
+import { useLocalization } from '../../lib/localization';
+
+export const EYE_LABELS = {
+  left: 'leftEye',
+  right: 'rightEye',
+} as const satisfies Record<EyeSide, string>;
+
+// Small "Left eye" / "Right eye" tag for photos from a both-eyes session.
+const EyeBadge: React.FC<{ eye: EyeSide; className?: string }> = ({ eye, className = '' }) => {
+  const { t } = useLocalization();
+  return (
+    <span className={`inline-block bg-cyan-500/90 text-black text-xs font-bold px-2 py-0.5 rounded-full ${className}`}>
+      {t(EYE_LABELS[eye])}
+    </span>
+  );
+};
+
+export default EyeBadge;
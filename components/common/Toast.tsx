@@ -0,0 +1,54 @@
+import React from 'react';
+import { XIcon } from './Icons';
+import { useLocalization } from '../../lib/localization';
+import { useToast } from '../../lib/toast';
+
+// Renders the toasts queued through useToast(), stacked above the bottom navigation.
+const ToastViewport: React.FC = () => {
+  const { t } = useLocalization();
+  const { toasts, dismiss } = useToast();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="absolute inset-x-0 bottom-24 z-50 flex flex-col items-center space-y-2 px-4 pointer-events-none" aria-live="polite">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.tone === 'error' ? 'alert' : 'status'}
+          className={`pointer-events-auto w-full max-w-sm rounded-2xl p-4 shadow-lg backdrop-blur-sm border ${
+            toast.tone === 'error' ? 'bg-gray-900/95 border-red-500/60' : 'bg-gray-800/95 border-gray-700'
+          }`}
+        >
+          <div className="flex items-start">
+            <div className="flex-grow">
+              {toast.titleKey && <p className="font-bold text-white">{t(toast.titleKey)}</p>}
+              <p className={`text-sm ${toast.titleKey ? 'text-gray-300 mt-1' : 'text-white'}`}>{t(toast.messageKey)}</p>
+            </div>
+            <button onClick={() => dismiss(toast.id)} className="ml-3 text-gray-400 hover:text-white" aria-label={t('dismiss')}>
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+          {toast.actions.length > 0 && (
+            <div className="flex justify-end space-x-2 mt-3">
+              {toast.actions.map(action => (
+                <button
+                  key={action.labelKey}
+                  onClick={() => {
+                    dismiss(toast.id);
+                    action.onAction();
+                  }}
+                  className="bg-cyan-500 hover:bg-cyan-600 text-black text-sm font-bold py-2 px-4 rounded-full"
+                >
+                  {t(action.labelKey)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastViewport;
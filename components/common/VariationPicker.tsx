@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { useLocalization } from '../../lib/localization';
+import { XIcon } from './Icons';
+
+interface VariationPickerProps {
+  images: string[];
+  // Variations the structure check flagged; they can still be picked.
+  flagged: boolean[];
+  title: string;
+  onPick: (index: number) => void;
+  onCancel: () => void;
+}
+
+// Full-screen carousel of effect variations. Swiping uses native scroll snapping, so it works the
+// same with touch, trackpads and the dots below.
+const VariationPicker: React.FC<VariationPickerProps> = ({ images, flagged, title, onPick, onCancel }) => {
+  const { t } = useLocalization();
+  const [current, setCurrent] = useState(0);
+  const stripRef = useRef<HTMLDivElement>(null);
+
+  const handleScroll = () => {
+    const strip = stripRef.current;
+    if (!strip) return;
+    setCurrent(Math.round(strip.scrollLeft / strip.clientWidth));
+  };
+
+  const scrollTo = (index: number) => {
+    const strip = stripRef.current;
+    strip?.scrollTo({ left: index * strip.clientWidth, behavior: 'smooth' });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold text-white">
+            {title} · {current + 1}/{images.length}
+          </h3>
+          <button onClick={onCancel} className="text-gray-400 hover:text-white" aria-label={t('dismiss')}>
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div
+          ref={stripRef}
+          onScroll={handleScroll}
+          className="flex overflow-x-auto snap-x snap-mandatory rounded-lg"
+          style={{ scrollbarWidth: 'none' }}
+        >
+          {images.map((image, index) => (
+            <div key={index} className="relative w-full flex-shrink-0 snap-center">
+              <img
+                src={image}
+                alt={`${t('variation')} ${index + 1}`}
+                className="w-full object-contain"
+                style={{ aspectRatio: '1 / 1' }}
+              />
+              {flagged[index] && (
+                <span className="absolute top-2 left-2 bg-amber-500 text-black text-xs font-bold px-2 py-1 rounded-full">
+                  {t('structureFlagged')}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-center space-x-2 my-4" role="tablist">
+          {images.map((_, index) => (
+            <button
+              key={index}
+              onClick={() => scrollTo(index)}
+              role="tab"
+              aria-selected={index === current}
+              aria-label={`${t('variation')} ${index + 1}`}
+              className={`w-2.5 h-2.5 rounded-full ${index === current ? 'bg-cyan-400' : 'bg-gray-600'}`}
+            />
+          ))}
+        </div>
+
+        <button
+          onClick={() => onPick(current)}
+          className="w-full bg-cyan-500 hover:bg-cyan-600 text-black font-bold py-3 px-4 rounded-full"
+        >
+          {t('useVariation')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariationPicker;
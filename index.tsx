@@ -3,6 +3,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { LocalizationProvider } from './lib/localization';
+import { ToastProvider } from './lib/toast';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,7 +14,9 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <LocalizationProvider>
-      <App />
+      <ToastProvider>
+        <App />
+      </ToastProvider>
     </LocalizationProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { Adjustments } from '../types';
+import { boxBlur, toGrayscale } from './irisDetector';
+
+// Local adjustment stack for EditScreen. Everything runs on plain RGBA buffers so the same code
+// renders the live slider preview (downscaled) and the full-size history step.
+
+export type AdjustmentKey = keyof Adjustments;
+
+export const NEUTRAL_ADJUSTMENTS: Adjustments = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  vibrance: 0,
+  clarity: 0,
+  vignette: 0,
+  hue: 0,
+};
+
+export const ADJUSTMENT_RANGES: Record<AdjustmentKey, { min: number; max: number; step: number }> = {
+  exposure: { min: -2, max: 2, step: 0.05 },
+  contrast: { min: -100, max: 100, step: 1 },
+  saturation: { min: -100, max: 100, step: 1 },
+  vibrance: { min: -100, max: 100, step: 1 },
+  clarity: { min: 0, max: 100, step: 1 },
+  vignette: { min: 0, max: 100, step: 1 },
+  hue: { min: -180, max: 180, step: 1 },
+};
+
+export const ADJUSTMENT_KEYS = Object.keys(NEUTRAL_ADJUSTMENTS) as AdjustmentKey[];
+
+export const isNeutral = (adjustments: Adjustments): boolean =>
+  ADJUSTMENT_KEYS.every(key => adjustments[key] === 0);
+
+// Same matrix as CSS `hue-rotate()`, which keeps luminance roughly constant.
+const hueRotationMatrix = (degrees: number): number[] => {
+  const a = (degrees * Math.PI) / 180;
+  const cos = Math.cos(a);
+  const sin = Math.sin(a);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+};
+
+const luma = (r: number, g: number, b: number) => r * 0.299 + g * 0.587 + b * 0.114;
+
+export function applyAdjustmentsToPixels(source: ImageData, adjustments: Adjustments): ImageData {
+  const { width, height } = source;
+  const input = source.data;
+  const output = new ImageData(width, height);
+  const out = output.data;
+
+  const gain = 2 ** adjustments.exposure;
+  const contrast = 1 + adjustments.contrast / 100;
+  const saturation = 1 + adjustments.saturation / 100;
+  const vibrance = adjustments.vibrance / 100;
+  const hue = adjustments.hue !== 0 ? hueRotationMatrix(adjustments.hue) : null;
+  const vignette = adjustments.vignette / 100;
+
+  // Clarity is an unsharp mask on luminance only, so it adds local contrast without color fringes.
+  // The radius scales with the image so preview and full-size renders look the same.
+  let clarityDetail: Float32Array | null = null;
+  if (adjustments.clarity > 0) {
+    const gray = toGrayscale(input, width, height);
+    const radius = Math.max(1, Math.round(Math.min(width, height) / 100));
+    const blurred = boxBlur(boxBlur(gray, radius), radius);
+    const amount = (adjustments.clarity / 100) * 1.5;
+    clarityDetail = new Float32Array(width * height);
+    for (let i = 0; i < clarityDetail.length; i++) {
+      clarityDetail[i] = ((gray.data[i] - blurred.data[i]) / 255) * amount;
+    }
+  }
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxDistance = Math.hypot(cx, cy);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const p = i * 4;
+      let r = (input[p] / 255) * gain;
+      let g = (input[p + 1] / 255) * gain;
+      let b = (input[p + 2] / 255) * gain;
+
+      if (clarityDetail) {
+        const detail = clarityDetail[i];
+        r += detail;
+        g += detail;
+        b += detail;
+      }
+
+      r = (r - 0.5) * contrast + 0.5;
+      g = (g - 0.5) * contrast + 0.5;
+      b = (b - 0.5) * contrast + 0.5;
+
+      if (hue) {
+        const hr = hue[0] * r + hue[1] * g + hue[2] * b;
+        const hg = hue[3] * r + hue[4] * g + hue[5] * b;
+        const hb = hue[6] * r + hue[7] * g + hue[8] * b;
+        r = hr;
+        g = hg;
+        b = hb;
+      }
+
+      // Vibrance boosts muted colors more than already saturated ones.
+      const currentSaturation = Math.max(r, g, b) - Math.min(r, g, b);
+      const chroma = saturation * (1 + vibrance * (1 - Math.min(1, currentSaturation)));
+      const l = luma(r, g, b);
+      r = l + (r - l) * chroma;
+      g = l + (g - l) * chroma;
+      b = l + (b - l) * chroma;
+
+      if (vignette > 0) {
+        const d = Math.hypot(x - cx, y - cy) / maxDistance;
+        const falloff = 1 - vignette * Math.min(1, Math.max(0, (d - 0.35) / 0.65)) ** 2;
+        r *= falloff;
+        g *= falloff;
+        b *= falloff;
+      }
+
+      out[p] = r * 255;
+      out[p + 1] = g * 255;
+      out[p + 2] = b * 255;
+      out[p + 3] = input[p + 3];
+    }
+  }
+
+  return output;
+}
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image for adjustments'));
+    img.src = src;
+  });
+};
+
+// Draws `img` into a canvas no larger than `maxSize` on its longest side and returns its pixels.
+export const readPixels = (img: HTMLImageElement, maxSize = Infinity): ImageData => {
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Renders the full-size result for a history step, as a PNG data URL.
+export async function renderAdjustedImage(sourceImage: string, adjustments: Adjustments): Promise<string> {
+  const img = await loadImageElement(sourceImage);
+  const pixels = applyAdjustmentsToPixels(readPixels(img), adjustments);
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,83 @@
+import { detectIrisOnDevice } from '../services/onDeviceDetection';
+import { FrameScore, rankFrames, scoreFrame } from './frameQuality';
+
+// Burst capture: grabs a quick series of video frames and keeps the best one. At macro distance most
+// single frames are blurred by hand shake, but within a second there is almost always a sharp one.
+// Only the few sharpest frames are kept at full size, so a burst doesn't hold dozens of 1080p canvases.
+
+const BURST_FRAMES = 15;
+const BURST_DURATION_MS = 1000;
+// Frames that make it past the first, sharpness-only pass and get the full (detection-based) score.
+const CANDIDATES = 4;
+// Longest side of the copies the frames are scored on.
+const ANALYSIS_SIZE = 480;
+
+interface Candidate {
+  full: HTMLCanvasElement;
+  preview: HTMLCanvasElement;
+  score: FrameScore;
+}
+
+const drawFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement, scale: number): CanvasRenderingContext2D => {
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return ctx;
+};
+
+// Resolves on the next decoded video frame where supported, otherwise after `fallbackMs`.
+const nextFrame = (video: HTMLVideoElement, fallbackMs: number): Promise<void> => new Promise(resolve => {
+  if ('requestVideoFrameCallback' in video) {
+    video.requestVideoFrameCallback(() => resolve());
+  } else {
+    window.setTimeout(resolve, fallbackMs);
+  }
+});
+
+const wait = (ms: number) => new Promise(resolve => window.setTimeout(resolve, ms));
+
+// Captures a burst from `video` and returns its frames at full resolution, best first. The raw,
+// un-mirrored stream is drawn, like a single capture.
+export async function captureBurst(video: HTMLVideoElement, frameCount = BURST_FRAMES): Promise<HTMLCanvasElement[]> {
+  const interval = BURST_DURATION_MS / frameCount;
+  const previewScale = Math.min(1, ANALYSIS_SIZE / Math.max(video.videoWidth, video.videoHeight));
+  const candidates: Candidate[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    const startedAt = performance.now();
+    await nextFrame(video, interval);
+
+    const preview = document.createElement('canvas');
+    const ctx = drawFrame(video, preview, previewScale);
+    const { data, width, height } = ctx.getImageData(0, 0, preview.width, preview.height);
+    const score = scoreFrame(data, width, height);
+
+    const worst = candidates.length < CANDIDATES ? null : candidates.reduce((a, b) => a.score.sharpness <= b.score.sharpness ? a : b);
+    if (!worst || score.sharpness > worst.score.sharpness) {
+      // Reuse the evicted frame's canvas rather than allocating another full-size one.
+      const full = worst ? worst.full : document.createElement('canvas');
+      drawFrame(video, full, 1);
+      if (worst) candidates.splice(candidates.indexOf(worst), 1);
+      candidates.push({ full, preview, score });
+    }
+
+    // Spread the frames over the burst instead of taking them back to back.
+    await wait(Math.max(0, interval - (performance.now() - startedAt)));
+  }
+
+  // The sharpest frames are rescored with the iris located, so glare on it and closed lids count.
+  // Sharpness is only comparable over the same region, so frames where the eye wasn't found are
+  // dropped rather than ranked on their center-region score. Only when no frame has an eye does the
+  // burst fall back to the first pass, which measured every frame the same way.
+  const located = (await Promise.all(candidates.map(async candidate => {
+    const detection = await detectIrisOnDevice(candidate.preview);
+    const ctx = candidate.preview.getContext('2d', { willReadFrequently: true });
+    if (!ctx || !detection.success) return null;
+    const { data, width, height } = ctx.getImageData(0, 0, candidate.preview.width, candidate.preview.height);
+    return { ...candidate, score: scoreFrame(data, width, height, detection) };
+  }))).filter((candidate): candidate is Candidate => candidate !== null);
+
+  return rankFrames(located.length > 0 ? located : candidates).map(candidate => candidate.full);
+}
@@ -0,0 +1,140 @@
+// Hardware camera controls, read from the video track's capabilities. Torch, focus, exposure, white
+// balance and zoom are extensions to MediaStreamTrack that only some browsers and cameras support,
+// and lib.dom doesn't type them. Everything here degrades to "not supported" instead of throwing.
+
+export interface NumericRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface CameraResolution {
+  width: number;
+  height: number;
+}
+
+export interface CameraCapabilities {
+  torch: boolean;
+  // e.g. 'continuous', 'single-shot', 'manual'.
+  focusModes: string[];
+  focusDistance: NumericRange | null;
+  exposureCompensation: NumericRange | null;
+  whiteBalanceModes: string[];
+  colorTemperature: NumericRange | null;
+  zoom: NumericRange | null;
+  // Standard resolutions within the range the camera reports, largest first.
+  resolutions: CameraResolution[];
+}
+
+export interface CameraSettings {
+  torch?: boolean;
+  focusMode?: string;
+  focusDistance?: number;
+  exposureCompensation?: number;
+  whiteBalanceMode?: string;
+  colorTemperature?: number;
+  zoom?: number;
+}
+
+// What getCapabilities() returns on browsers that implement the image capture extensions.
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean | boolean[];
+  focusMode?: string[];
+  focusDistance?: Partial<NumericRange>;
+  exposureCompensation?: Partial<NumericRange>;
+  whiteBalanceMode?: string[];
+  colorTemperature?: Partial<NumericRange>;
+  zoom?: Partial<NumericRange>;
+}
+
+// Offered in the resolution picker when the camera's range includes them.
+const STANDARD_RESOLUTIONS: CameraResolution[] = [
+  { width: 3840, height: 2160 },
+  { width: 2560, height: 1440 },
+  { width: 1920, height: 1080 },
+  { width: 1280, height: 720 },
+  { width: 640, height: 480 },
+];
+
+// The resolution asked for when the user hasn't picked one.
+export const DEFAULT_CAMERA_RESOLUTION: CameraResolution = { width: 1920, height: 1080 };
+
+export const NO_CAMERA_CAPABILITIES: CameraCapabilities = {
+  torch: false,
+  focusModes: [],
+  focusDistance: null,
+  exposureCompensation: null,
+  whiteBalanceModes: [],
+  colorTemperature: null,
+  zoom: null,
+  resolutions: [],
+};
+
+const toRange = (range?: Partial<NumericRange>): NumericRange | null => {
+  if (range?.min === undefined || range.max === undefined || range.max <= range.min) return null;
+  return { min: range.min, max: range.max, step: range.step || (range.max - range.min) / 100 };
+};
+
+// Capabilities are reported for the camera's native (landscape) orientation.
+const supportedResolutions = (capabilities: MediaTrackCapabilities): CameraResolution[] => {
+  const { width, height } = capabilities;
+  if (!width?.max || !height?.max) return [];
+  return STANDARD_RESOLUTIONS.filter(resolution =>
+    resolution.width <= width.max! && resolution.height <= height.max! &&
+    resolution.width >= (width.min ?? 0) && resolution.height >= (height.min ?? 0));
+};
+
+export function readCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  if (typeof track.getCapabilities !== 'function') return NO_CAMERA_CAPABILITIES;
+  try {
+    const capabilities = track.getCapabilities() as ExtendedCapabilities;
+    const torch = Array.isArray(capabilities.torch) ? capabilities.torch.includes(true) : !!capabilities.torch;
+    return {
+      torch,
+      focusModes: capabilities.focusMode ?? [],
+      focusDistance: toRange(capabilities.focusDistance),
+      exposureCompensation: toRange(capabilities.exposureCompensation),
+      whiteBalanceModes: capabilities.whiteBalanceMode ?? [],
+      colorTemperature: toRange(capabilities.colorTemperature),
+      zoom: toRange(capabilities.zoom),
+      resolutions: supportedResolutions(capabilities),
+    };
+  } catch (error) {
+    console.warn('Could not read camera capabilities:', error);
+    return NO_CAMERA_CAPABILITIES;
+  }
+}
+
+export function readCameraSettings(track: MediaStreamTrack): CameraSettings {
+  const settings = track.getSettings() as MediaTrackSettings & CameraSettings;
+  return {
+    torch: settings.torch,
+    focusMode: settings.focusMode,
+    focusDistance: settings.focusDistance,
+    exposureCompensation: settings.exposureCompensation,
+    whiteBalanceMode: settings.whiteBalanceMode,
+    colorTemperature: settings.colorTemperature,
+    zoom: settings.zoom,
+  };
+}
+
+// Applies the given settings to the track. Resolves to false (and leaves the camera as it was)
+// when the camera rejects them.
+export async function applyCameraSettings(track: MediaStreamTrack, settings: CameraSettings): Promise<boolean> {
+  try {
+    await track.applyConstraints({ advanced: [settings as MediaTrackConstraintSet] });
+    return true;
+  } catch (error) {
+    console.warn('Camera rejected settings:', settings, error);
+    return false;
+  }
+}
+
+// Whether the camera has anything worth showing a controls panel for.
+export const hasCameraControls = (capabilities: CameraCapabilities): boolean =>
+  capabilities.torch ||
+  capabilities.focusModes.includes('manual') ||
+  capabilities.exposureCompensation !== null ||
+  capabilities.whiteBalanceModes.includes('manual') ||
+  capabilities.zoom !== null ||
+  capabilities.resolutions.length > 1;
@@ -0,0 +1,114 @@
+const DB_NAME = 'snapeyes';
+
+export const HISTORY_STORE = 'history';
+export const RESULT_CACHE_STORE = 'results';
+export const JOBS_STORE = 'jobs';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Each entry upgrades the schema by exactly one version: migrations[0] creates version 1,
+// migrations[1] moves version 1 to 2, and so on. Never edit a shipped migration — append a new one.
+const migrations: Migration[] = [
+  // v1: gallery history records, with their images stored inline as Blobs.
+  (db) => {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+  },
+  // v2: history records carry their EditScreen effect stack. Older records only kept the exported
+  // image, so that becomes a single untagged step on top of the base.
+  (_db, transaction) => {
+    const cursorRequest = transaction.objectStore(HISTORY_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const record = cursor.value;
+      if (!Array.isArray(record.edits)) {
+        cursor.update({ ...record, edits: [{ image: record.thumbnail, effectKey: null }], editIndex: 1 });
+      }
+      cursor.continue();
+    };
+  },
+  // v3: content-addressed cache of AI results, evicted least-recently-used first.
+  (db) => {
+    const results = db.createObjectStore(RESULT_CACHE_STORE, { keyPath: 'key' });
+    results.createIndex('lastUsedAt', 'lastUsedAt');
+  },
+  // v4: background enhancement jobs, so queued captures survive a reload.
+  (db) => {
+    const jobs = db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+    jobs.createIndex('createdAt', 'createdAt');
+  },
+];
+
+export const DB_VERSION = migrations.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](db, transaction);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; close so its upgrade isn't blocked, and reopen lazily.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error ?? new Error('Could not open the SnapEyes database.'));
+    request.onblocked = () => console.warn('SnapEyes database upgrade is blocked by another open tab.');
+  });
+
+  // Allow a later call to retry if opening failed.
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+};
+
+// Mobile Safari evicts non-persistent storage aggressively; ask once for persistence.
+let persistenceRequested = false;
+export const requestPersistentStorage = async (): Promise<void> => {
+  if (persistenceRequested) return;
+  persistenceRequested = true;
+  try {
+    if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+      await navigator.storage.persist();
+    }
+  } catch (e) {
+    console.warn('Could not request persistent storage.');
+  }
+};
@@ -0,0 +1,74 @@
+import { loadImageElement } from './adjustments';
+import { boxBlur, toGrayscale } from './irisDetector';
+
+// Upscaling path for AI outputs, which come back at about 1024px no matter how large the photo was.
+// The AI image is scaled up smoothly, then the fine luminance detail of the original photo (at the
+// target size) is added back on top. Color, lighting and the effect come from the AI image; the
+// texture of the fibers comes from the camera, so a 2048px result holds real detail, not mush.
+
+// How much of the photo's high-frequency detail is added back.
+const DETAIL_AMOUNT = 0.7;
+// AI pixels at or below this luma are background and stay pure black.
+const BACKGROUND_LUMA = 8;
+
+const drawAtSize = (img: HTMLImageElement, size: number): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, size, size);
+  return ctx.getImageData(0, 0, size, size);
+};
+
+function transferDetail(upscaled: ImageData, detailSource: ImageData, detailRadius: number, amount = DETAIL_AMOUNT): ImageData {
+  const { width, height } = upscaled;
+  const gray = toGrayscale(detailSource.data, width, height);
+  const blurred = boxBlur(boxBlur(gray, detailRadius), detailRadius);
+  const output = new ImageData(width, height);
+  const out = output.data;
+  const input = upscaled.data;
+
+  for (let i = 0, p = 0; i < gray.data.length; i++, p += 4) {
+    const r = input[p], g = input[p + 1], b = input[p + 2];
+    const isBackground = r * 0.299 + g * 0.587 + b * 0.114 <= BACKGROUND_LUMA;
+    const detail = isBackground ? 0 : (gray.data[i] - blurred.data[i]) * amount;
+    out[p] = r + detail;
+    out[p + 1] = g + detail;
+    out[p + 2] = b + detail;
+    out[p + 3] = 255;
+  }
+  return output;
+}
+
+// Scales the square `aiSrc` up to `size` and restores detail from `detailSrc`, a square of the same
+// framing. With `withDetail` off (e.g. the two images don't line up), it only scales. Returns a PNG data URL.
+export async function upscaleWithDetail(aiSrc: string, detailSrc: string, size: number, withDetail = true): Promise<string> {
+  const aiImg = await loadImageElement(aiSrc);
+  let pixels = drawAtSize(aiImg, size);
+
+  if (withDetail && aiImg.naturalWidth < size) {
+    const detailImg = await loadImageElement(detailSrc);
+    // Only detail finer than what the AI image can hold is taken from the photo.
+    const detailRadius = Math.max(1, Math.round(size / aiImg.naturalWidth));
+    pixels = transferDetail(pixels, drawAtSize(detailImg, size), detailRadius);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+// Brings an AI output back up to the size of the image it was made from, e.g. an effect applied to a
+// 2048px photo. Outputs that are already at least as large are returned as they are.
+export async function matchSourceResolution(aiSrc: string, sourceSrc: string, withDetail = true): Promise<string> {
+  const [aiImg, sourceImg] = await Promise.all([loadImageElement(aiSrc), loadImageElement(sourceSrc)]);
+  const size = Math.min(sourceImg.naturalWidth, sourceImg.naturalHeight);
+  if (aiImg.naturalWidth >= size) return aiSrc;
+  return upscaleWithDetail(aiSrc, sourceSrc, size, withDetail);
+}
@@ -0,0 +1,38 @@
+import { EditHistoryState } from '../types';
+import { isNeutral, renderAdjustedImage } from './adjustments';
+import { renderBlendedImage } from './effectBlend';
+
+// Re-renders an EditScreen chain after a step was dropped or moved. Steps before `from` are kept
+// as they are; every later step is rebuilt on top of its new predecessor:
+// - adjustment steps are re-rendered from the closest earlier step without adjustments,
+// - effects made from the base image keep their AI output and are only re-blended,
+// - stacked effects were generated from the previous image, so they need a new AI call.
+// Steps from before adjustments and blends were recorded can't be rebuilt and keep their image.
+export async function rerenderChain(
+  chain: EditHistoryState[],
+  from: number,
+  applyEffect: (image: string, step: EditHistoryState) => Promise<string>
+): Promise<EditHistoryState[]> {
+  const result = chain.slice(0, Math.max(1, from));
+
+  for (let i = result.length; i < chain.length; i++) {
+    const step = chain[i];
+    const previous = result[i - 1];
+
+    if (step.adjustments) {
+      let sourceIndex = i - 1;
+      while (sourceIndex > 0 && result[sourceIndex].adjustments) sourceIndex--;
+      const source = result[sourceIndex];
+      const image = isNeutral(step.adjustments) ? source.image : await renderAdjustedImage(source.image, step.adjustments);
+      result.push({ ...step, image, effectKey: source.effectKey, customEffect: source.customEffect });
+    } else if (step.blend && step.effectKey) {
+      const output = step.stacked ? await applyEffect(previous.image, step) : step.blend.output;
+      const blend = { ...step.blend, output };
+      result.push({ ...step, image: await renderBlendedImage(previous.image, blend), blend });
+    } else {
+      result.push(step);
+    }
+  }
+
+  return result;
+}
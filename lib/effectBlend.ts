@@ -0,0 +1,68 @@
+import { EffectBlend } from '../types';
+import { loadImageElement, readPixels } from './adjustments';
+
+export const DEFAULT_BLEND: Omit<EffectBlend, 'output'> = {
+  intensity: 100,
+  protectCore: false,
+  coreRadius: 0.3,
+};
+
+// Width of the soft edge of the core mask, as a fraction of the image width.
+const MASK_FEATHER = 0.06;
+
+// Mixes `effect` over `base` (same size). With `protectCore`, the effect fades in only outside a
+// circle in the middle of the frame, which is where the composed iris sits.
+export function blendEffectPixels(base: ImageData, effect: ImageData, blend: Omit<EffectBlend, 'output'>): ImageData {
+  const { width, height } = base;
+  const output = new ImageData(width, height);
+  const out = output.data;
+  const alpha = blend.intensity / 100;
+  const cx = width / 2;
+  const cy = height / 2;
+  const inner = blend.coreRadius * width;
+  const feather = MASK_FEATHER * width;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let weight = alpha;
+      if (blend.protectCore) {
+        const t = Math.min(1, Math.max(0, (Math.hypot(x - cx, y - cy) - inner) / feather));
+        weight *= t * t * (3 - 2 * t);
+      }
+      const p = (y * width + x) * 4;
+      out[p] = base.data[p] + (effect.data[p] - base.data[p]) * weight;
+      out[p + 1] = base.data[p + 1] + (effect.data[p + 1] - base.data[p + 1]) * weight;
+      out[p + 2] = base.data[p + 2] + (effect.data[p + 2] - base.data[p + 2]) * weight;
+      out[p + 3] = 255;
+    }
+  }
+
+  return output;
+}
+
+// Reads both images at the size of `baseSrc` (capped at `maxSize`), so outputs of a different
+// resolution still line up pixel for pixel.
+export async function readBlendPixels(baseSrc: string, effectSrc: string, maxSize = Infinity) {
+  const [baseImg, effectImg] = await Promise.all([loadImageElement(baseSrc), loadImageElement(effectSrc)]);
+  const base = readPixels(baseImg, maxSize);
+  const canvas = document.createElement('canvas');
+  canvas.width = base.width;
+  canvas.height = base.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.drawImage(effectImg, 0, 0, base.width, base.height);
+  return { base, effect: ctx.getImageData(0, 0, base.width, base.height) };
+}
+
+// Renders the full-size image for an effect step, as a PNG data URL.
+export async function renderBlendedImage(baseSrc: string, blend: EffectBlend): Promise<string> {
+  if (blend.intensity >= 100 && !blend.protectCore) return blend.output;
+  const { base, effect } = await readBlendPixels(baseSrc, blend.output);
+  const canvas = document.createElement('canvas');
+  canvas.width = base.width;
+  canvas.height = base.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.putImageData(blendEffectPixels(base, effect, blend), 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,95 @@
+import { useCallback, useState } from 'react';
+import { CustomEffectId, EffectPreset } from '../types';
+
+// The user's custom effect library, persisted in localStorage next to the other preferences.
+// Presets are exported and imported as a small versioned JSON document.
+
+const STORAGE_KEY = 'snapeyes_effect_presets';
+const EXPORT_VERSION = 1;
+
+export const MAX_PROMPT_LENGTH = 4000;
+
+export const isCustomEffectId = (id: string | null | undefined): id is CustomEffectId =>
+  typeof id === 'string' && id.startsWith('custom:');
+
+export const newPresetId = (): CustomEffectId =>
+  `custom:${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const isPresetLike = (value: unknown): value is { name: string; prompt: string } => {
+  const candidate = value as { name?: unknown; prompt?: unknown } | null;
+  return typeof candidate?.name === 'string' && typeof candidate?.prompt === 'string'
+    && candidate.name.trim().length > 0 && candidate.prompt.trim().length > 0;
+};
+
+export const loadPresets = (): EffectPreset[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed: unknown = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((preset): preset is EffectPreset => isPresetLike(preset) && isCustomEffectId((preset as EffectPreset).id));
+      }
+    }
+  } catch (e) {
+    console.warn('Could not read saved effect presets.');
+  }
+  return [];
+};
+
+const savePresets = (presets: EffectPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn('Could not save effect presets.');
+  }
+};
+
+export const serializePresets = (presets: EffectPreset[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, presets: presets.map(({ name, prompt }) => ({ name, prompt })) }, null, 2);
+
+// Accepts an export from serializePresets, or a bare array of { name, prompt }. Invalid entries are
+// skipped; imported presets always get fresh ids. Throws if the text is not usable at all.
+export const parsePresets = (json: string): EffectPreset[] => {
+  const parsed: unknown = JSON.parse(json);
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+  if (!Array.isArray(entries)) {
+    throw new Error('Not a SnapEyes preset file.');
+  }
+  return entries.filter(isPresetLike).map(entry => ({
+    id: newPresetId(),
+    name: entry.name.trim().slice(0, 60),
+    prompt: entry.prompt.trim().slice(0, MAX_PROMPT_LENGTH),
+  }));
+};
+
+export const useEffectPresets = () => {
+  const [presets, setPresets] = useState<EffectPreset[]>(loadPresets);
+
+  const update = useCallback((change: (current: EffectPreset[]) => EffectPreset[]) => {
+    setPresets(current => {
+      const next = change(current);
+      savePresets(next);
+      return next;
+    });
+  }, []);
+
+  const savePreset = useCallback((preset: EffectPreset) => {
+    update(current => current.some(p => p.id === preset.id)
+      ? current.map(p => (p.id === preset.id ? preset : p))
+      : [...current, preset]);
+  }, [update]);
+
+  const deletePreset = useCallback((id: CustomEffectId) => {
+    update(current => current.filter(p => p.id !== id));
+  }, [update]);
+
+  // Presets with the same name and prompt as an existing one are skipped. Returns how many were added.
+  const importPresets = useCallback((imported: EffectPreset[]): number => {
+    const current = loadPresets();
+    const added = imported.filter(preset => !current.some(p => p.name === preset.name && p.prompt === preset.prompt));
+    update(latest => [...latest, ...added]);
+    return added.length;
+  }, [update]);
+
+  return { presets, savePreset, deletePreset, importPresets };
+};
@@ -0,0 +1,125 @@
+import { translations } from './translations';
+import { aiErrorMessageKey, classifyAiError } from '../services/aiRequest';
+
+type TranslationKey = keyof typeof translations.en;
+
+export type SnapEyesErrorKind = 'camera' | 'import' | 'detection' | 'enhancement' | 'effect' | 'render' | 'structure' | 'quota' | 'export' | 'storage';
+
+// Every failure the user can see is one of these. `titleKey` and `messageKey` are translation keys,
+// so screens render errors with `t()` instead of showing raw exception text.
+export class SnapEyesError extends Error {
+  readonly kind: SnapEyesErrorKind;
+  readonly titleKey: TranslationKey;
+  readonly messageKey: TranslationKey;
+
+  constructor(kind: SnapEyesErrorKind, titleKey: TranslationKey, messageKey: TranslationKey, cause?: unknown) {
+    super(translations.en[messageKey], { cause });
+    this.name = 'SnapEyesError';
+    this.kind = kind;
+    this.titleKey = titleKey;
+    this.messageKey = messageKey;
+  }
+}
+
+export class CameraError extends SnapEyesError {
+  // `messageKey` replaces the generic message for failures after the camera started, e.g. a burst.
+  constructor(cause?: unknown, messageKey?: TranslationKey) {
+    const denied = cause instanceof DOMException && (cause.name === 'NotAllowedError' || cause.name === 'SecurityError');
+    super('camera', 'cameraErrorTitle', denied ? 'cameraPermissionDenied' : messageKey ?? 'cameraError', cause);
+    this.name = 'CameraError';
+  }
+}
+
+// An uploaded file couldn't be turned into a photo (see lib/imageImport.ts).
+export class ImportError extends SnapEyesError {
+  constructor(messageKey: TranslationKey = 'importUnreadable', cause?: unknown) {
+    super('import', 'importFailed', messageKey, cause);
+    this.name = 'ImportError';
+  }
+}
+
+export class DetectionError extends SnapEyesError {
+  constructor(messageKey: TranslationKey = 'detectionFailedSub', cause?: unknown) {
+    super('detection', 'detectionFailed', messageKey, cause);
+    this.name = 'DetectionError';
+  }
+}
+
+export class EnhancementError extends SnapEyesError {
+  constructor(messageKey: TranslationKey = 'aiErrorUnknown', cause?: unknown) {
+    super('enhancement', 'enhancementFailed', messageKey, cause);
+    this.name = 'EnhancementError';
+  }
+}
+
+export class EffectError extends SnapEyesError {
+  constructor(messageKey: TranslationKey = 'aiErrorUnknown', cause?: unknown) {
+    super('effect', 'effectFailed', messageKey, cause);
+    this.name = 'EffectError';
+  }
+}
+
+// A local edit (adjustments, effect intensity or mask) couldn't be drawn. The photo stays as it was.
+export class RenderError extends SnapEyesError {
+  constructor(messageKey: TranslationKey, cause?: unknown) {
+    super('render', 'renderFailed', messageKey, cause);
+    this.name = 'RenderError';
+  }
+}
+
+// The AI result came back, but it no longer matches the iris it was given (see lib/structureCheck.ts).
+// The result is kept; this is shown as a warning with an offer to retry.
+export class StructureDriftError extends SnapEyesError {
+  readonly score: number;
+
+  constructor(source: 'enhancement' | 'effect', score: number) {
+    super('structure', 'structureDrift', source === 'enhancement' ? 'structureDriftEnhancement' : 'structureDriftEffect');
+    this.name = 'StructureDriftError';
+    this.score = score;
+  }
+}
+
+// Either the user ran out of export credits, or the AI service ran out of quota. Only the first one
+// can be fixed by buying credits.
+export class QuotaError extends SnapEyesError {
+  readonly source: 'credits' | 'service';
+
+  constructor(source: 'credits' | 'service', cause?: unknown) {
+    super('quota', source === 'credits' ? 'outOfCredits' : 'serviceBusy', source === 'credits' ? 'outOfCreditsSub' : 'aiErrorQuota', cause);
+    this.name = 'QuotaError';
+    this.source = source;
+  }
+}
+
+export class ExportError extends SnapEyesError {
+  constructor(messageKey: TranslationKey = 'exportFailedSub', cause?: unknown) {
+    super('export', 'exportFailed', messageKey, cause);
+    this.name = 'ExportError';
+  }
+}
+
+export class StorageError extends SnapEyesError {
+  constructor(messageKey: TranslationKey = 'storageSaveFailed', cause?: unknown) {
+    super('storage', 'storageFailed', messageKey, cause);
+    this.name = 'StorageError';
+  }
+}
+
+type AiErrorKind = 'detection' | 'enhancement' | 'effect';
+
+// Wraps a failed AI call in the error for the step that made it. An exhausted quota is reported as a
+// QuotaError whatever the step, since the recovery is the same everywhere.
+export const fromAiError = (kind: AiErrorKind, error: unknown): SnapEyesError => {
+  if (error instanceof SnapEyesError) return error;
+  if (classifyAiError(error) === 'quota') return new QuotaError('service', error);
+
+  const messageKey = aiErrorMessageKey(error);
+  switch (kind) {
+    case 'detection':
+      return new DetectionError(messageKey, error);
+    case 'enhancement':
+      return new EnhancementError(messageKey, error);
+    case 'effect':
+      return new EffectError(messageKey, error);
+  }
+};
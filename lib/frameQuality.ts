@@ -0,0 +1,207 @@
+import { IrisDetectionResult } from '../types';
+import { GrayImage, toGrayscale } from './irisDetector';
+
+// Local quality scores for camera frames, used for the live capture guidance and to pick the best
+// shot of a burst. Like the iris detector it works on small RGBA buffers and has no DOM dependencies.
+//
+// - Sharpness: variance of the Laplacian over the iris (or the middle of the frame). Motion blur and
+//   missed focus flatten it; it's most meaningful between frames of the same scene and size.
+// - Brightness: mean luma over the same region.
+// - Highlights: share of the iris covered by blown-out specular reflections.
+// - Openness: share of the iris above and below the pupil that isn't covered by the eyelids.
+
+export interface FrameScore {
+  sharpness: number;
+  // 0 to 255.
+  brightness: number;
+  // 0 to 1.
+  highlightShare: number;
+  // 0 to 1; 1 when the eye couldn't be found, so it neither helps nor hurts.
+  openness: number;
+}
+
+// What keeps a frame from being a good capture, most pressing first.
+export type QualityIssue = 'noEye' | 'tooDark' | 'tooBright' | 'moveCloser' | 'eyelid' | 'glare' | 'blurry';
+
+export interface QualityAssessment {
+  // 0 to 1.
+  score: number;
+  issues: QualityIssue[];
+}
+
+// Auto-capture waits for at least this score.
+export const MIN_CAPTURE_SCORE = 0.55;
+
+type IrisBox = NonNullable<IrisDetectionResult['box']>;
+
+// Luma at which a pixel counts as a specular highlight.
+const HIGHLIGHT_LUMA = 245;
+// Without a detection, sharpness is measured over this centered share of the frame.
+const FALLBACK_REGION = 0.6;
+// Eyelid skin is brighter than the iris next to it by at least this much (0-255 luma).
+const EYELID_MARGIN = 25;
+// A small catchlight is unavoidable; highlights only start to cost above this share of the iris.
+const ACCEPTABLE_HIGHLIGHT_SHARE = 0.02;
+// Mean iris brightness outside this range is under- or overexposed; the score ramps down over EXPOSURE_RAMP.
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 200;
+const EXPOSURE_RAMP = 40;
+// Laplacian variance of a frame in good focus at the preview analysis size (a few hundred pixels).
+const SHARP_VARIANCE = 80;
+// Iris diameter, in pixels of the camera frame, below which there is too little fiber detail.
+const MIN_IRIS_DIAMETER = 280;
+const GOOD_IRIS_DIAMETER = 450;
+// Each component must reach this to not be reported as an issue.
+const ISSUE_THRESHOLD = 0.6;
+
+interface Region {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+const regionFor = (width: number, height: number, box?: IrisBox): Region => {
+  if (box) {
+    return {
+      x0: Math.max(1, Math.floor(box.xMin * width)),
+      y0: Math.max(1, Math.floor(box.yMin * height)),
+      x1: Math.min(width - 1, Math.ceil(box.xMax * width)),
+      y1: Math.min(height - 1, Math.ceil(box.yMax * height)),
+    };
+  }
+  const marginX = Math.round(width * (1 - FALLBACK_REGION) / 2);
+  const marginY = Math.round(height * (1 - FALLBACK_REGION) / 2);
+  return { x0: Math.max(1, marginX), y0: Math.max(1, marginY), x1: width - 1 - marginX, y1: height - 1 - marginY };
+};
+
+// Variance of the 4-neighbour Laplacian inside `region`, skipping highlights, whose hard edges
+// would otherwise make a glare-filled frame look sharp.
+const laplacianVariance = (gray: GrayImage, region: Region): number => {
+  const { data, width } = gray;
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = region.y0; y < region.y1; y++) {
+    for (let x = region.x0; x < region.x1; x++) {
+      const i = y * width + x;
+      if (data[i] >= HIGHLIGHT_LUMA) continue;
+      const value = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+// Mean luma and share of blown-out pixels inside the iris circle (or region).
+const exposureStats = (gray: GrayImage, region: Region, circular: boolean): { brightness: number; highlightShare: number } => {
+  const { data, width } = gray;
+  const cx = (region.x0 + region.x1) / 2;
+  const cy = (region.y0 + region.y1) / 2;
+  const radius = Math.min(region.x1 - region.x0, region.y1 - region.y0) / 2;
+  let total = 0;
+  let highlights = 0;
+  let count = 0;
+  for (let y = region.y0; y < region.y1; y++) {
+    for (let x = region.x0; x < region.x1; x++) {
+      if (circular && Math.hypot(x + 0.5 - cx, y + 0.5 - cy) > radius) continue;
+      const value = data[y * width + x];
+      count++;
+      total += value;
+      if (value >= HIGHLIGHT_LUMA) highlights++;
+    }
+  }
+  return count > 0 ? { brightness: total / count, highlightShare: highlights / count } : { brightness: 0, highlightShare: 0 };
+};
+
+const glareFactor = (highlightShare: number) => Math.max(0, 1 - Math.max(0, highlightShare - ACCEPTABLE_HIGHLIGHT_SHARE) * 10);
+
+// Compares the iris above and below the pupil with the iris beside it, which the eyelids rarely
+// reach. Samples that are much brighter than the sides are taken to be eyelid.
+const irisOpenness = (gray: GrayImage, detection: IrisDetectionResult): number => {
+  const { data, width, height } = gray;
+  if (detection.centerX === undefined || detection.centerY === undefined || detection.radius === undefined) return 1;
+  const cx = detection.centerX * width;
+  const cy = detection.centerY * height;
+  const radius = detection.radius * width;
+
+  const sample = (angle: number, r: number): number | null => {
+    const x = Math.round(cx + r * Math.cos(angle));
+    const y = Math.round(cy + r * Math.sin(angle));
+    if (x < 0 || y < 0 || x >= width || y >= height) return null;
+    return data[y * width + x];
+  };
+
+  // Angles within 30° of horizontal (the sides) and of vertical (under the lids), at 50-90% of the radius.
+  const sides: number[] = [];
+  const lids: number[] = [];
+  for (let step = -5; step <= 5; step++) {
+    const offset = (step / 5) * (Math.PI / 6);
+    for (let r = radius * 0.5; r <= radius * 0.9; r += Math.max(1, radius * 0.1)) {
+      for (const base of [0, Math.PI]) {
+        const value = sample(base + offset, r);
+        if (value !== null) sides.push(value);
+      }
+      for (const base of [Math.PI / 2, -Math.PI / 2]) {
+        const value = sample(base + offset, r);
+        // Samples outside the frame can't be seen, which is as good as covered.
+        lids.push(value ?? Infinity);
+      }
+    }
+  }
+  if (sides.length === 0 || lids.length === 0) return 1;
+
+  sides.sort((a, b) => a - b);
+  const irisLevel = sides[Math.floor(sides.length / 2)];
+  const visible = lids.filter(value => value < irisLevel + EYELID_MARGIN).length;
+  return visible / lids.length;
+};
+
+// Scores an RGBA frame. Pass the detection for the same frame to focus the scores on the iris.
+export function scoreFrame(rgba: Uint8ClampedArray, width: number, height: number, detection?: IrisDetectionResult): FrameScore {
+  const gray = toGrayscale(rgba, width, height);
+  const box = detection?.success ? detection.box : undefined;
+  const region = regionFor(width, height, box);
+  return {
+    sharpness: laplacianVariance(gray, region),
+    ...exposureStats(gray, region, !!box),
+    openness: box ? irisOpenness(gray, detection!) : 1,
+  };
+}
+
+// Rates a live preview frame for capture and lists what's wrong with it. `frameWidth` is the width of
+// the full camera frame, so the iris size is judged in the pixels a capture would actually have.
+export function assessFrame(score: FrameScore, detection: IrisDetectionResult, frameWidth: number): QualityAssessment {
+  if (!detection.success || detection.radius === undefined) return { score: 0, issues: ['noEye'] };
+
+  const exposure = score.brightness < MIN_BRIGHTNESS
+    ? Math.max(0, 1 - (MIN_BRIGHTNESS - score.brightness) / EXPOSURE_RAMP)
+    : Math.max(0, 1 - Math.max(0, score.brightness - MAX_BRIGHTNESS) / EXPOSURE_RAMP);
+  const diameter = detection.radius * 2 * frameWidth;
+  const size = Math.min(1, Math.max(0, (diameter - MIN_IRIS_DIAMETER / 2) / (GOOD_IRIS_DIAMETER - MIN_IRIS_DIAMETER / 2)));
+  const glare = glareFactor(score.highlightShare);
+  const sharpness = Math.min(1, score.sharpness / SHARP_VARIANCE);
+
+  const issues: QualityIssue[] = [];
+  if (exposure < ISSUE_THRESHOLD) issues.push(score.brightness < MIN_BRIGHTNESS ? 'tooDark' : 'tooBright');
+  if (diameter < MIN_IRIS_DIAMETER) issues.push('moveCloser');
+  if (score.openness < ISSUE_THRESHOLD) issues.push('eyelid');
+  if (glare < ISSUE_THRESHOLD) issues.push('glare');
+  if (sharpness < ISSUE_THRESHOLD) issues.push('blurry');
+
+  return { score: exposure * size * glare * sharpness * score.openness, issues };
+}
+
+// Orders frames best first. Sharpness is relative to the sharpest frame of the set, since its
+// absolute value depends on the scene; glare and closed lids scale it down.
+export function rankFrames<T extends { score: FrameScore }>(frames: T[]): T[] {
+  const maxSharpness = Math.max(...frames.map(frame => frame.score.sharpness), 1e-6);
+  const overall = ({ score }: T) => {
+    return (score.sharpness / maxSharpness) * glareFactor(score.highlightShare) * score.openness;
+  };
+  return [...frames].sort((a, b) => overall(b) - overall(a));
+}
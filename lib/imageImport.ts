@@ -0,0 +1,267 @@
+import { ImportError } from './errors';
+
+// Turns an uploaded file into the working format the rest of the app assumes: an upright JPEG data
+// URL. Phone photos usually store their pixels sideways with an EXIF orientation tag, which <img>
+// honours but the AI models and the crop coordinates don't, so the orientation is baked into the
+// pixels here. HEIC, PNG, WebP and the JPEG preview embedded in camera RAW files are re-encoded to
+// JPEG on the way, and since the canvas keeps no metadata, GPS coordinates and the rest of EXIF go too.
+
+export type ImportFormat = 'jpeg' | 'png' | 'webp' | 'heic' | 'raw' | 'other';
+
+// What the import did to the file, shown on the crop screen.
+export interface ImportReport {
+  format: ImportFormat;
+  // Short name of the original format ("HEIC", "NEF"), for display.
+  sourceLabel: string;
+  rotated: boolean;
+  // Whether the file carried GPS coordinates, which aren't in the imported photo.
+  locationRemoved: boolean;
+  downscaled: boolean;
+  width: number;
+  height: number;
+}
+
+export interface ImportedImage {
+  dataUrl: string;
+  report: ImportReport;
+}
+
+// Larger photos are scaled down; this is about what mobile Safari allows for a single canvas.
+const MAX_IMPORT_PIXELS = 16_000_000;
+const JPEG_QUALITY = 0.95;
+
+const ORIENTATION_TAG = 0x0112;
+const GPS_IFD_TAG = 0x8825;
+
+// ISO-BMFF brands of HEIF stills (HEIC is HEIF with HEVC inside).
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+const FORMAT_LABELS: Record<ImportFormat, string | null> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  heic: 'HEIC',
+  // RAW and unknown formats are named after the file extension, e.g. "DNG".
+  raw: null,
+  other: null,
+};
+
+interface ExifInfo {
+  // 1-8 as in the EXIF spec; 1 is upright.
+  orientation: number;
+  hasGps: boolean;
+}
+
+const NO_EXIF: ExifInfo = { orientation: 1, hasGps: false };
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// DNG, CR2, NEF, ARW, ORF and RW2 are TIFF containers (ORF and RW2 with their own magic number).
+const isTiffBased = (bytes: Uint8Array) => ['II*\0', 'MM\0*', 'IIRO', 'IIU\0'].includes(ascii(bytes, 0, 4));
+
+const sniffFormat = (bytes: Uint8Array): ImportFormat => {
+  if (bytes.length < 12) return 'other';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 4, 4) === 'ftyp' && HEIF_BRANDS.has(ascii(bytes, 8, 4))) return 'heic';
+  // RAF and CR3 have their own containers but embed JPEG previews the same way TIFF-based RAWs do.
+  if (isTiffBased(bytes) || ascii(bytes, 0, 8) === 'FUJIFILM' || (ascii(bytes, 4, 4) === 'ftyp' && ascii(bytes, 8, 4) === 'crx ')) return 'raw';
+  return 'other';
+};
+
+// Reads the orientation and whether there's a GPS block from the first IFD of the TIFF structure at
+// `tiffStart`. Malformed data reads as "no EXIF".
+const readTiffExif = (bytes: Uint8Array, tiffStart: number): ExifInfo => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (tiffStart + 8 > view.byteLength) return NO_EXIF;
+  const littleEndian = ascii(bytes, tiffStart, 2) === 'II';
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > view.byteLength) return NO_EXIF;
+
+  const info = { ...NO_EXIF };
+  const entries = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    if (tag === ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, littleEndian);
+      if (orientation >= 1 && orientation <= 8) info.orientation = orientation;
+    } else if (tag === GPS_IFD_TAG) {
+      info.hasGps = true;
+    }
+  }
+  return info;
+};
+
+// Finds the APP1 "Exif" segment of a JPEG, which holds a TIFF structure.
+const readJpegExif = (bytes: Uint8Array): ExifInfo => {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the metadata segments all come before the image data.
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') {
+      return readTiffExif(bytes, offset + 10);
+    }
+    offset += 2 + length;
+  }
+  return NO_EXIF;
+};
+
+// Length of the JPEG starting at `start`, found by walking its segments to the end-of-image marker,
+// or 0 when it isn't a complete JPEG.
+const jpegLength = (bytes: Uint8Array, start: number): number => {
+  let offset = start + 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return 0;
+    const marker = bytes[offset + 1];
+    if (marker === 0xd9) return offset + 2 - start;
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    offset += 2 + length;
+    if (marker === 0xda) {
+      // Entropy-coded data runs until the next marker that isn't a stuffed byte or a restart marker.
+      while (offset + 1 < bytes.length && !(bytes[offset] === 0xff && bytes[offset + 1] !== 0x00 && (bytes[offset + 1] < 0xd0 || bytes[offset + 1] > 0xd7))) {
+        offset++;
+      }
+    }
+  }
+  return 0;
+};
+
+// Camera RAW files carry one or more JPEG previews rendered by the camera; the largest one is
+// usually full size, which is plenty for the iris crop. Decoding the sensor data itself isn't
+// something a browser can do.
+const largestEmbeddedJpeg = (bytes: Uint8Array): Uint8Array | null => {
+  let best: Uint8Array | null = null;
+  // Skip the header, which can't start a preview.
+  for (let i = 8; i + 3 < bytes.length; i++) {
+    if (bytes[i] !== 0xff || bytes[i + 1] !== 0xd8 || bytes[i + 2] !== 0xff) continue;
+    const length = jpegLength(bytes, i);
+    if (length === 0) continue;
+    if (!best || length > best.length) best = bytes.subarray(i, i + length);
+    i += length - 1;
+  }
+  return best;
+};
+
+// Decodes with the browser, applying the file's own EXIF orientation ('from-image' is the default,
+// but older engines need it spelled out).
+const decode = async (blob: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+      // Some engines decode more formats through <img> than through createImageBitmap (e.g. HEIC in Safari).
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('The browser could not decode the image'));
+      img.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const sizeOf = (image: ImageBitmap | HTMLImageElement) =>
+  image instanceof HTMLImageElement ? { width: image.naturalWidth, height: image.naturalHeight } : { width: image.width, height: image.height };
+
+// The transform that draws a stored image of `width` × `height` upright, for EXIF orientations 2-8
+// (rotations and mirrorings); the identity for 1.
+const orientationMatrix = (orientation: number, width: number, height: number): DOMMatrix => {
+  switch (orientation) {
+    case 2: return new DOMMatrix([-1, 0, 0, 1, width, 0]);
+    case 3: return new DOMMatrix([-1, 0, 0, -1, width, height]);
+    case 4: return new DOMMatrix([1, 0, 0, -1, 0, height]);
+    case 5: return new DOMMatrix([0, 1, 1, 0, 0, 0]);
+    case 6: return new DOMMatrix([0, 1, -1, 0, height, 0]);
+    case 7: return new DOMMatrix([0, -1, -1, 0, height, width]);
+    case 8: return new DOMMatrix([0, -1, 1, 0, 0, width]);
+    default: return new DOMMatrix();
+  }
+};
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toUpperCase() : '';
+
+// Imports any image the browser (or the RAW preview extraction) can decode. Throws ImportError with
+// a message for the user when it can't.
+export async function importImageBlob(blob: Blob, fileName = ''): Promise<ImportedImage> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const format = sniffFormat(bytes);
+  const sourceLabel = FORMAT_LABELS[format] ?? (extensionOf(fileName) || 'RAW');
+
+  let source: Blob = blob;
+  let exif = format === 'jpeg' ? readJpegExif(bytes) : NO_EXIF;
+  // Orientation the browser won't apply by itself, because it belongs to the RAW container rather
+  // than to the preview JPEG that gets decoded.
+  let manualOrientation = 1;
+  if (format === 'raw') {
+    const preview = largestEmbeddedJpeg(bytes);
+    // Without a preview there's still a chance the browser reads the file (Safari decodes TIFF).
+    if (preview) {
+      const rawExif = isTiffBased(bytes) ? readTiffExif(bytes, 0) : NO_EXIF;
+      const previewExif = readJpegExif(preview);
+      exif = { orientation: previewExif.orientation > 1 ? previewExif.orientation : rawExif.orientation, hasGps: rawExif.hasGps || previewExif.hasGps };
+      if (previewExif.orientation === 1) manualOrientation = rawExif.orientation;
+      source = new Blob([preview], { type: 'image/jpeg' });
+    }
+  }
+
+  let image: ImageBitmap | HTMLImageElement;
+  try {
+    image = await decode(source);
+  } catch (error) {
+    if (format === 'heic') throw new ImportError('importHeicUnsupported', error);
+    if (format === 'raw') throw new ImportError('importRawNoPreview', error);
+    throw new ImportError('importUnreadable', error);
+  }
+
+  try {
+    const stored = sizeOf(image);
+    if (stored.width === 0 || stored.height === 0) throw new ImportError('importUnreadable');
+    const swapsSides = manualOrientation >= 5;
+    const upright = swapsSides ? { width: stored.height, height: stored.width } : stored;
+    const scale = Math.min(1, Math.sqrt(MAX_IMPORT_PIXELS / (upright.width * upright.height)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(upright.width * scale));
+    canvas.height = Math.max(1, Math.round(upright.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context not available');
+    // Transparent PNG and WebP areas would otherwise turn black in the JPEG anyway; filling first
+    // makes that explicit and matches the black background of the enhanced images.
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(new DOMMatrix().scaleSelf(scale).multiplySelf(orientationMatrix(manualOrientation, stored.width, stored.height)));
+    ctx.drawImage(image, 0, 0, stored.width, stored.height);
+
+    return {
+      dataUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+      report: {
+        format,
+        sourceLabel,
+        rotated: exif.orientation > 1,
+        locationRemoved: exif.hasGps,
+        downscaled: scale < 1,
+        width: canvas.width,
+        height: canvas.height,
+      },
+    };
+  } finally {
+    if (!(image instanceof HTMLImageElement)) image.close();
+  }
+}
+
+export const importImageFile = (file: File): Promise<ImportedImage> => importImageBlob(file, file.name);
@@ -0,0 +1,301 @@
+import { IrisDetectionResult } from '../types';
+
+// On-device pupil/limbus finder. It works on small RGBA buffers (a few hundred pixels across)
+// and runs in a Web Worker during capture, so it has no DOM dependencies.
+//
+// 1. Gradient voting: every strong edge votes for the points lying "behind" it along its gradient,
+//    i.e. towards the darker side. Edges of a dark disc (the pupil) all vote for its center.
+// 2. The vote map is weighted by darkness, since the pupil is the darkest round thing in a close-up.
+// 3. From that center, a radial brightness profile is sampled to the left and right (eyelids tend to
+//    cover the top and bottom of the iris). Dark-to-bright steps mark the pupil edge and the limbus.
+
+export interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const MIN_CONFIDENCE = 0.25;
+
+export const toGrayscale = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    data[i] = rgba[p] * 0.299 + rgba[p + 1] * 0.587 + rgba[p + 2] * 0.114;
+  }
+  return { data, width, height };
+};
+
+// Separable box blur; two passes are a decent Gaussian approximation.
+export const boxBlur = (image: GrayImage, radius: number): GrayImage => {
+  const { width, height } = image;
+  if (radius < 1) return { data: new Float32Array(image.data), width, height };
+
+  const horizontal = new Float32Array(width * height);
+  const output = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    let count = 0;
+    for (let x = -radius; x < width + radius; x++) {
+      const addX = x + radius;
+      if (addX < width) {
+        sum += image.data[y * width + addX];
+        count++;
+      }
+      const removeX = x - radius - 1;
+      if (removeX >= 0) {
+        sum -= image.data[y * width + removeX];
+        count--;
+      }
+      if (x >= 0 && x < width) horizontal[y * width + x] = sum / count;
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    let count = 0;
+    for (let y = -radius; y < height + radius; y++) {
+      const addY = y + radius;
+      if (addY < height) {
+        sum += horizontal[addY * width + x];
+        count++;
+      }
+      const removeY = y - radius - 1;
+      if (removeY >= 0) {
+        sum -= horizontal[removeY * width + x];
+        count--;
+      }
+      if (y >= 0 && y < height) output[y * width + x] = sum / count;
+    }
+  }
+
+  return { data: output, width, height };
+};
+
+export const sobel = (image: GrayImage) => {
+  const { data, width, height } = image;
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  const magnitude = new Float32Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const tl = data[i - width - 1], tc = data[i - width], tr = data[i - width + 1];
+      const ml = data[i - 1], mr = data[i + 1];
+      const bl = data[i + width - 1], bc = data[i + width], br = data[i + width + 1];
+      const dx = (tr + 2 * mr + br) - (tl + 2 * ml + bl);
+      const dy = (bl + 2 * bc + br) - (tl + 2 * tc + tr);
+      gx[i] = dx;
+      gy[i] = dy;
+      magnitude[i] = Math.hypot(dx, dy);
+    }
+  }
+
+  return { gx, gy, magnitude };
+};
+
+const sampleBilinear = (image: GrayImage, x: number, y: number): number | null => {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return null;
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1), y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0, fy = y - y0;
+  const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+  const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+};
+
+// Separable running min/max filter over a square window.
+const extremumFilter = (image: GrayImage, radius: number, pick: (a: number, b: number) => number): GrayImage => {
+  const { width, height } = image;
+  const horizontal = new Float32Array(width * height);
+  const output = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = image.data[y * width + x];
+      for (let k = Math.max(0, x - radius); k <= Math.min(width - 1, x + radius); k++) {
+        value = pick(value, image.data[y * width + k]);
+      }
+      horizontal[y * width + x] = value;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = horizontal[y * width + x];
+      for (let k = Math.max(0, y - radius); k <= Math.min(height - 1, y + radius); k++) {
+        value = pick(value, horizontal[k * width + x]);
+      }
+      output[y * width + x] = value;
+    }
+  }
+  return { data: output, width, height };
+};
+
+// Specular reflections are small, very bright spots, usually right on the pupil, and they create the
+// strongest edges in most eye photos. A grayscale opening (erode, then dilate) removes anything bright
+// that is smaller than the window while leaving the pupil and limbus intact.
+const suppressHighlights = (image: GrayImage, radius: number): GrayImage => {
+  return extremumFilter(extremumFilter(image, radius, Math.min), radius, Math.max);
+};
+
+const findCenter = (gray: GrayImage, minRadius: number, maxRadius: number) => {
+  const { width, height } = gray;
+  const { gx, gy, magnitude } = sobel(gray);
+
+  let sum = 0;
+  let sumSq = 0;
+  for (const m of magnitude) {
+    sum += m;
+    sumSq += m * m;
+  }
+  const mean = sum / magnitude.length;
+  const std = Math.sqrt(Math.max(0, sumSq / magnitude.length - mean * mean));
+  const threshold = mean + std;
+
+  const votes = new Float32Array(width * height);
+  const radiusStep = Math.max(1, Math.floor((maxRadius - minRadius) / 40));
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m < threshold) continue;
+      const ux = gx[i] / m;
+      const uy = gy[i] / m;
+      for (let r = minRadius; r <= maxRadius; r += radiusStep) {
+        const cx = Math.round(x - ux * r);
+        const cy = Math.round(y - uy * r);
+        if (cx < 0 || cy < 0 || cx >= width || cy >= height) break;
+        votes[cy * width + cx] += m;
+      }
+    }
+  }
+
+  const smoothedVotes = boxBlur(boxBlur({ data: votes, width, height }, 2), 2);
+  const darkness = boxBlur(gray, Math.max(1, Math.round(minRadius)));
+
+  let best = -1;
+  let bestIndex = 0;
+  for (let i = 0; i < smoothedVotes.data.length; i++) {
+    const dark = 1 - darkness.data[i] / 255;
+    const score = smoothedVotes.data[i] * dark * dark;
+    if (score > best) {
+      best = score;
+      bestIndex = i;
+    }
+  }
+
+  return { x: bestIndex % width, y: Math.floor(bestIndex / width) };
+};
+
+// Mean outward brightness derivative at each radius, using only the left and right sectors.
+const radialProfile = (gray: GrayImage, cx: number, cy: number, minRadius: number, maxRadius: number) => {
+  const angles: number[] = [];
+  for (let i = 0; i < 16; i++) {
+    const a = (-50 + (100 * i) / 15) * (Math.PI / 180);
+    angles.push(a, a + Math.PI);
+  }
+
+  const profile = new Float32Array(maxRadius + 2);
+  for (let r = minRadius; r <= maxRadius; r++) {
+    let total = 0;
+    let count = 0;
+    for (const a of angles) {
+      const cos = Math.cos(a), sin = Math.sin(a);
+      const outer = sampleBilinear(gray, cx + (r + 1) * cos, cy + (r + 1) * sin);
+      const inner = sampleBilinear(gray, cx + (r - 1) * cos, cy + (r - 1) * sin);
+      if (outer === null || inner === null) continue;
+      total += (outer - inner) / 2;
+      count++;
+    }
+    profile[r] = count > angles.length / 4 ? total / count : 0;
+  }
+
+  const smoothed = new Float32Array(profile.length);
+  for (let r = 1; r < profile.length - 1; r++) {
+    smoothed[r] = (profile[r - 1] + 2 * profile[r] + profile[r + 1]) / 4;
+  }
+  return smoothed;
+};
+
+const strongestPeak = (profile: Float32Array, from: number, to: number) => {
+  let radius = -1;
+  let value = 0;
+  for (let r = Math.max(1, Math.round(from)); r <= Math.min(profile.length - 2, Math.round(to)); r++) {
+    if (profile[r] > value && profile[r] >= profile[r - 1] && profile[r] >= profile[r + 1]) {
+      value = profile[r];
+      radius = r;
+    }
+  }
+  return { radius, value };
+};
+
+const ringMean = (gray: GrayImage, cx: number, cy: number, from: number, to: number): number | null => {
+  let total = 0;
+  let count = 0;
+  for (let r = Math.max(0, from); r <= to; r += 1) {
+    for (let i = 0; i < 24; i++) {
+      const a = (i / 24) * Math.PI * 2;
+      const value = sampleBilinear(gray, cx + r * Math.cos(a), cy + r * Math.sin(a));
+      if (value !== null) {
+        total += value;
+        count++;
+      }
+    }
+  }
+  return count > 0 ? total / count : null;
+};
+
+export function detectIrisInPixels(rgba: Uint8ClampedArray, width: number, height: number): IrisDetectionResult {
+  if (width < 16 || height < 16) {
+    return { success: false, error: 'Image is too small to analyze.' };
+  }
+
+  const minDimension = Math.min(width, height);
+  const minRadius = Math.max(3, Math.round(minDimension * 0.02));
+  const gray = boxBlur(suppressHighlights(toGrayscale(rgba, width, height), minRadius), 1);
+  const maxRadius = Math.round(minDimension * 0.45);
+
+  const center = findCenter(gray, minRadius, maxRadius);
+  const profile = radialProfile(gray, center.x, center.y, minRadius, maxRadius);
+
+  const first = strongestPeak(profile, minRadius, maxRadius);
+  if (first.radius < 0) {
+    return { success: false, error: 'No iris edge found.' };
+  }
+
+  // The strongest step is usually either the pupil edge or the limbus. The iris is 1.5–5x the pupil,
+  // so a clear step further out means the first one was the pupil.
+  let irisRadius = first.radius;
+  let edgeStrength = first.value;
+  const outer = strongestPeak(profile, first.radius * 1.5, Math.min(maxRadius, first.radius * 5));
+  if (outer.radius > 0 && outer.value >= first.value * 0.4) {
+    irisRadius = outer.radius;
+    edgeStrength = outer.value;
+  }
+
+  const pupilMean = ringMean(gray, center.x, center.y, 0, Math.max(1, Math.round(irisRadius * 0.2)));
+  const outsideMean = ringMean(gray, center.x, center.y, Math.round(irisRadius * 1.1), Math.round(irisRadius * 1.3));
+  const contrast = pupilMean !== null && outsideMean !== null ? outsideMean - pupilMean : 0;
+  const confidence = Math.min(1, edgeStrength / 12) * Math.min(1, Math.max(0, contrast / 30));
+
+  if (confidence < MIN_CONFIDENCE) {
+    return { success: false, error: 'No eye found in frame.', confidence };
+  }
+
+  const centerX = center.x / width;
+  const centerY = center.y / height;
+  return {
+    success: true,
+    centerX,
+    centerY,
+    radius: irisRadius / width,
+    confidence,
+    box: {
+      xMin: Math.max(0, (center.x - irisRadius) / width),
+      yMin: Math.max(0, (center.y - irisRadius) / height),
+      xMax: Math.min(1, (center.x + irisRadius) / width),
+      yMax: Math.min(1, (center.y + irisRadius) / height),
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import { detectIrisInPixels } from './irisDetector';
+
+export interface IrisDetectorRequest {
+  id: number;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+self.onmessage = (event: MessageEvent<IrisDetectorRequest>) => {
+  const { id, width, height, pixels } = event.data;
+  try {
+    const result = detectIrisInPixels(pixels, width, height);
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({ id, result: { success: false, error: error instanceof Error ? error.message : 'Detection failed.' } });
+  }
+};
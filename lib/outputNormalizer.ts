@@ -0,0 +1,136 @@
+import { loadImageElement, readPixels } from './adjustments';
+
+// Post-processing for every image the AI returns. The prompts ask for a 1:1 image with the iris
+// centered on pure black, but models sometimes return other sizes, off-center irises or a dark grey
+// background. This re-centers the content on a square canvas of a fixed size and clamps the
+// background to #000000, so everything downstream can rely on that composition.
+//
+// Effect outputs keep their framing instead: their input is already normalized, and a glow or halo
+// would widen the content circle and shrink the iris, breaking the pixel alignment with the base
+// image that blending (lib/effectBlend.ts) and the structure check (lib/structureCheck.ts) rely on.
+
+export const NORMALIZED_SIZE = 1024;
+
+// Detection runs on a small copy; only the final draw uses the full image.
+const ANALYSIS_SIZE = 256;
+// How far above the background level a pixel has to be to count as part of the iris (0-255 luma).
+const FOREGROUND_MARGIN = 24;
+// Background pixels up to this level are made black; the pupil and dark fibers are never touched
+// by the higher, background-derived threshold.
+const NEAR_BLACK = 12;
+const MAX_BACKGROUND_LEVEL = 72;
+// Width of the ramp above the threshold, so clamping doesn't leave a hard edge around the glow.
+const CLAMP_RAMP = 16;
+// Content smaller than this share of the frame is treated as noise, and the image is only squared.
+const MIN_CONTENT_SHARE = 0.1;
+
+interface ContentCircle {
+  // In source pixels.
+  centerX: number;
+  centerY: number;
+  radius: number;
+}
+
+const luma = (data: Uint8ClampedArray, p: number) => data[p] * 0.299 + data[p + 1] * 0.587 + data[p + 2] * 0.114;
+
+// Median brightness of the outermost pixels, which should all be background.
+const estimateBackgroundLevel = (pixels: ImageData): number => {
+  const { data, width, height } = pixels;
+  const samples: number[] = [];
+  for (let x = 0; x < width; x++) {
+    samples.push(luma(data, x * 4), luma(data, ((height - 1) * width + x) * 4));
+  }
+  for (let y = 1; y < height - 1; y++) {
+    samples.push(luma(data, y * width * 4), luma(data, (y * width + width - 1) * 4));
+  }
+  samples.sort((a, b) => a - b);
+  return samples[Math.floor(samples.length / 2)];
+};
+
+// The smallest circle around everything brighter than the background, centered on its bounding box.
+// Returns null when there is too little content to go by.
+const findContentCircle = (pixels: ImageData, backgroundLevel: number): ContentCircle | null => {
+  const { data, width, height } = pixels;
+  const threshold = backgroundLevel + FOREGROUND_MARGIN;
+  let xMin = width, xMax = -1, yMin = height, yMax = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luma(data, (y * width + x) * 4) <= threshold) continue;
+      if (x < xMin) xMin = x;
+      if (x > xMax) xMax = x;
+      if (y < yMin) yMin = y;
+      if (y > yMax) yMax = y;
+    }
+  }
+  if (xMax < 0 || (xMax - xMin + 1) * (yMax - yMin + 1) < MIN_CONTENT_SHARE * width * height) return null;
+  return {
+    centerX: (xMin + xMax + 1) / 2,
+    centerY: (yMin + yMax + 1) / 2,
+    radius: Math.max(xMax - xMin + 1, yMax - yMin + 1) / 2,
+  };
+};
+
+// Clamps dark, colorless pixels to black: up to `backgroundThreshold` outside the content circle,
+// and only up to NEAR_BLACK inside it (or everywhere, without a circle).
+const clampBackground = (pixels: ImageData, circle: ContentCircle | null, backgroundThreshold: number): void => {
+  const { data, width, height } = pixels;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const inside = circle !== null && Math.hypot(x + 0.5 - circle.centerX, y + 0.5 - circle.centerY) < circle.radius;
+      const threshold = inside ? NEAR_BLACK : backgroundThreshold;
+      const max = Math.max(data[p], data[p + 1], data[p + 2]);
+      const chroma = max - Math.min(data[p], data[p + 1], data[p + 2]);
+      if (max >= threshold + CLAMP_RAMP || chroma > CLAMP_RAMP) continue;
+      // 0 at the threshold, rising back to the original value at the end of the ramp.
+      const keep = Math.max(0, (max - threshold) / CLAMP_RAMP);
+      data[p] *= keep;
+      data[p + 1] *= keep;
+      data[p + 2] *= keep;
+    }
+  }
+};
+
+export interface NormalizeOptions {
+  // 'content' re-centers and zooms on the content; 'input' only fits the whole image into the square.
+  framing?: 'content' | 'input';
+  size?: number;
+}
+
+// Returns a PNG data URL of `size` x `size` with the content centered on black.
+export async function normalizeOutputImage(src: string, { framing = 'content', size = NORMALIZED_SIZE }: NormalizeOptions = {}): Promise<string> {
+  const img = await loadImageElement(src);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const preview = readPixels(img, ANALYSIS_SIZE);
+  const backgroundLevel = estimateBackgroundLevel(preview);
+  const found = framing === 'content' ? findContentCircle(preview, backgroundLevel) : null;
+  const scale = width / preview.width;
+
+  // When keeping the framing, or without detectable content, use a centered square that keeps the whole image.
+  const circle: ContentCircle = found
+    ? { centerX: found.centerX * scale, centerY: found.centerY * scale, radius: found.radius * scale }
+    : { centerX: width / 2, centerY: height / 2, radius: Math.max(width, height) / 2 };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context not available');
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, size, size);
+  const zoom = size / (circle.radius * 2);
+  ctx.drawImage(img, size / 2 - circle.centerX * zoom, size / 2 - circle.centerY * zoom, width * zoom, height * zoom);
+
+  const pixels = ctx.getImageData(0, 0, size, size);
+  if (found || framing === 'input') {
+    const backgroundThreshold = Math.min(MAX_BACKGROUND_LEVEL, Math.max(NEAR_BLACK, backgroundLevel + NEAR_BLACK));
+    clampBackground(pixels, { centerX: size / 2, centerY: size / 2, radius: size / 2 }, backgroundThreshold);
+  } else {
+    clampBackground(pixels, null, NEAR_BLACK);
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+}
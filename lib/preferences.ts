@@ -0,0 +1,64 @@
+import { useCallback, useState } from 'react';
+import type { CameraResolution } from './cameraControls';
+
+export const WORKING_RESOLUTIONS = [512, 1024, 2048] as const;
+export type WorkingResolution = typeof WORKING_RESOLUTIONS[number];
+
+// User-facing app settings, persisted in localStorage next to the language choice.
+export interface Preferences {
+  // Ask the cloud model to refine the on-device iris crop. Slower and needs a connection.
+  cloudIrisRefinement: boolean;
+  // EditScreen applies the next AI effect to the current step instead of the enhanced base image.
+  stackEffects: boolean;
+  // How many variations of an AI effect to generate at once. Above 1, the user picks one.
+  effectVariations: number;
+  // Side in pixels of the square crop, enhanced image and edits. Larger keeps more of the camera's detail.
+  workingResolution: WorkingResolution;
+  // Capture a quick series of frames and keep the sharpest instead of a single frame. Off by default:
+  // burst frames come from the video stream, while a single shot uses the full sensor (lib/stillCapture.ts).
+  burstCapture: boolean;
+  // Resolution to ask the camera for; null leaves it at the default.
+  cameraResolution: CameraResolution | null;
+}
+
+const STORAGE_KEY = 'snapeyes_preferences';
+
+const DEFAULT_PREFERENCES: Preferences = {
+  cloudIrisRefinement: false,
+  stackEffects: false,
+  effectVariations: 1,
+  workingResolution: 1024,
+  burstCapture: false,
+  cameraResolution: null,
+};
+
+export const getPreferences = (): Preferences => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      return { ...DEFAULT_PREFERENCES, ...JSON.parse(saved) };
+    }
+  } catch (e) {
+    console.warn('Could not read saved preferences.');
+  }
+  return { ...DEFAULT_PREFERENCES };
+};
+
+export const getPreference = <K extends keyof Preferences>(key: K): Preferences[K] => getPreferences()[key];
+
+export const setPreference = <K extends keyof Preferences>(key: K, value: Preferences[K]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...getPreferences(), [key]: value }));
+  } catch (e) {
+    console.warn('Could not save preferences.');
+  }
+};
+
+export const usePreference = <K extends keyof Preferences>(key: K) => {
+  const [value, setValue] = useState<Preferences[K]>(() => getPreference(key));
+  const update = useCallback((newValue: Preferences[K]) => {
+    setPreference(key, newValue);
+    setValue(newValue);
+  }, [key]);
+  return [value, update] as const;
+};
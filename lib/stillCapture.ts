@@ -0,0 +1,70 @@
+import { blobToDataUrl } from './dataUrl';
+
+// Full-resolution stills through the Image Capture API. Drawing the <video> into a canvas only gives
+// the preview stream's resolution (often 1080p or less), while takePhoto() uses the whole sensor,
+// which is where the fine iris detail at macro distance is. Browsers without the API, or cameras
+// that refuse, fall back to the canvas path in the caller.
+
+// lib.dom doesn't include the Image Capture API yet.
+interface MediaSettingsRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface PhotoCapabilities {
+  imageWidth?: MediaSettingsRange;
+  imageHeight?: MediaSettingsRange;
+  fillLightMode?: string[];
+}
+
+interface PhotoSettings {
+  imageWidth?: number;
+  imageHeight?: number;
+  fillLightMode?: string;
+}
+
+interface ImageCaptureInstance {
+  getPhotoCapabilities(): Promise<PhotoCapabilities>;
+  takePhoto(settings?: PhotoSettings): Promise<Blob>;
+}
+
+type ImageCaptureConstructor = new (track: MediaStreamTrack) => ImageCaptureInstance;
+
+const getImageCapture = (): ImageCaptureConstructor | null =>
+  (window as unknown as { ImageCapture?: ImageCaptureConstructor }).ImageCapture ?? null;
+
+export const supportsStillCapture = (): boolean => getImageCapture() !== null;
+
+// The largest photo the camera offers. The flash stays off: it puts a hard reflection right on the
+// iris, and the torch (see cameraControls) is the better light for macro shots.
+const bestPhotoSettings = (capabilities: PhotoCapabilities): PhotoSettings => {
+  const settings: PhotoSettings = {};
+  if (capabilities.imageWidth?.max) settings.imageWidth = capabilities.imageWidth.max;
+  if (capabilities.imageHeight?.max) settings.imageHeight = capabilities.imageHeight.max;
+  if (capabilities.fillLightMode?.includes('off')) settings.fillLightMode = 'off';
+  return settings;
+};
+
+// Takes a full-sensor photo with the camera behind `track`, as a data URL. Resolves to null when
+// the API is missing or the camera fails, so the caller can grab a video frame instead.
+export async function takeStillPhoto(track: MediaStreamTrack): Promise<string | null> {
+  const ImageCapture = getImageCapture();
+  if (!ImageCapture || track.readyState !== 'live') return null;
+  try {
+    const capture = new ImageCapture(track);
+    const capabilities = await capture.getPhotoCapabilities().catch(() => ({}));
+    let blob: Blob;
+    try {
+      blob = await capture.takePhoto(bestPhotoSettings(capabilities));
+    } catch (error) {
+      // Some cameras reject explicit settings they just reported; their defaults are still full-size.
+      console.warn('takePhoto rejected the requested settings, retrying with defaults:', error);
+      blob = await capture.takePhoto();
+    }
+    return await blobToDataUrl(blob);
+  } catch (error) {
+    console.warn('Could not take a still photo, using a video frame instead:', error);
+    return null;
+  }
+}
@@ -0,0 +1,83 @@
+import { readBlendPixels } from './effectBlend';
+import { GrayImage, boxBlur, sobel, toGrayscale } from './irisDetector';
+
+// Checks that an AI output kept the fiber structure of the iris it was given. Both images are
+// reduced to edge maps and correlated inside the iris annulus: fibers, crypts and furrows are edges,
+// so a model that invents or smooths them away scores low, while color grading and glow outside the
+// iris barely move the score.
+
+export type StructureCheckKind = 'enhancement' | 'effect';
+
+export interface StructureCheck {
+  // Pearson correlation of the two edge maps, from -1 to 1.
+  score: number;
+  drifted: boolean;
+}
+
+// Effects are allowed to add more on top of the iris than the enhancement is.
+const DRIFT_THRESHOLDS: Record<StructureCheckKind, number> = {
+  enhancement: 0.55,
+  effect: 0.35,
+};
+
+// Small enough to be fast, large enough to keep the coarser fibers.
+const ANALYSIS_SIZE = 160;
+
+// The annulus between the pupil and just inside the limbus, as fractions of the image width.
+// Both the enhancement input and every AI output have the iris filling the frame.
+const ANNULUS_INNER = 0.12;
+const ANNULUS_OUTER = 0.45;
+
+// Edge magnitudes, blurred a little so a result shifted or rescaled by a pixel or two still lines up.
+const edgeMap = (pixels: ImageData): GrayImage => {
+  const gray = boxBlur(toGrayscale(pixels.data, pixels.width, pixels.height), 1);
+  return boxBlur({ data: sobel(gray).magnitude, width: pixels.width, height: pixels.height }, 2);
+};
+
+export function structureSimilarity(input: ImageData, output: ImageData): number {
+  const a = edgeMap(input);
+  const b = edgeMap(output);
+  const { width, height } = a;
+  const cx = width / 2;
+  const cy = height / 2;
+  const inner = ANNULUS_INNER * width;
+  const outer = ANNULUS_OUTER * width;
+
+  let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = Math.hypot(x - cx, y - cy);
+      if (d < inner || d > outer) continue;
+      const i = y * width + x;
+      const va = a.data[i];
+      const vb = b.data[i];
+      n++;
+      sumA += va;
+      sumB += vb;
+      sumAA += va * va;
+      sumBB += vb * vb;
+      sumAB += va * vb;
+    }
+  }
+
+  const covariance = sumAB - (sumA * sumB) / n;
+  const varianceA = sumAA - (sumA * sumA) / n;
+  const varianceB = sumBB - (sumB * sumB) / n;
+  // A featureless input has no structure to lose.
+  if (varianceA < 1e-6 * n) return 1;
+  if (varianceB < 1e-6 * n) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+export async function checkStructure(inputSrc: string, outputSrc: string, kind: StructureCheckKind): Promise<StructureCheck> {
+  const { base, effect } = await readBlendPixels(inputSrc, outputSrc, ANALYSIS_SIZE);
+  const score = structureSimilarity(base, effect);
+  return { score, drifted: score < DRIFT_THRESHOLDS[kind] };
+}
+
+// For callers that treat the check as advisory: if it can't run, the result is not flagged.
+export const checkStructureSafely = (inputSrc: string, outputSrc: string, kind: StructureCheckKind): Promise<StructureCheck | null> =>
+  checkStructure(inputSrc, outputSrc, kind).catch(error => {
+    console.warn('Structure check failed:', error);
+    return null;
+  });
@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useState, useCallback, useMemo, useRef } from 'react';
+import { translations } from './translations';
+import { SnapEyesError } from './errors';
+
+type TranslationKey = keyof typeof translations.en;
+
+export interface ToastAction {
+  labelKey: TranslationKey;
+  onAction: () => void;
+}
+
+export interface Toast {
+  id: number;
+  tone: 'error' | 'info';
+  titleKey?: TranslationKey;
+  messageKey: TranslationKey;
+  actions: ToastAction[];
+}
+
+interface ToastContextType {
+  toasts: Toast[];
+  showError: (error: SnapEyesError, actions?: ToastAction[]) => void;
+  notify: (messageKey: TranslationKey) => void;
+  dismiss: (id: number) => void;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+const MAX_TOASTS = 3;
+const INFO_DURATION_MS = 4000;
+const ERROR_DURATION_MS = 8000;
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  const push = useCallback((toast: Omit<Toast, 'id'>, duration: number | null) => {
+    const id = nextId.current++;
+    setToasts(current => [...current, { ...toast, id }].slice(-MAX_TOASTS));
+    if (duration !== null) {
+      setTimeout(() => dismiss(id), duration);
+    }
+  }, [dismiss]);
+
+  // Errors that offer a recovery action stay until the user acts on them or dismisses them.
+  const showError = useCallback((error: SnapEyesError, actions: ToastAction[] = []) => {
+    console.error(`${error.name}:`, error.cause ?? error);
+    push(
+      { tone: 'error', titleKey: error.titleKey, messageKey: error.messageKey, actions },
+      actions.length > 0 ? null : ERROR_DURATION_MS
+    );
+  }, [push]);
+
+  const notify = useCallback((messageKey: TranslationKey) => {
+    push({ tone: 'info', messageKey, actions: [] }, INFO_DURATION_MS);
+  }, [push]);
+
+  const value = useMemo(() => ({ toasts, showError, notify, dismiss }), [toasts, showError, notify, dismiss]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = (): ToastContextType => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+};
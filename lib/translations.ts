@@ -35,6 +35,29 @@ export const translations = {
     autoCaptureHint: 'Position eye in view to begin',
     eyeDetectedHoldSteady: 'Eye detected. Hold steady.',
     holdSteady: 'Hold Steady...',
+    burstCapture: 'Burst Mode',
+    burstCapturing: 'Hold still, picking the sharpest shot...',
+    burstFailed: 'The burst could not be captured. Try again, or turn burst mode off.',
+    hintTooDark: 'Too dark, find more light',
+    hintTooBright: 'Too bright, move out of direct light',
+    hintMoveCloser: 'Move closer',
+    hintEyelid: 'Open your eye wider',
+    hintGlare: 'Reflection on the iris, tilt the phone slightly',
+    hintBlurry: 'Hold still so the iris is sharp',
+    hintGoodShot: 'Looks good, take the shot',
+    cameraControls: 'Camera Controls',
+    cameraTorch: 'Flashlight',
+    cameraOn: 'On',
+    cameraOff: 'Off',
+    cameraZoom: 'Zoom',
+    cameraFocus: 'Focus',
+    cameraFocusDistance: 'Focus distance',
+    cameraExposure: 'Exposure',
+    cameraWhiteBalance: 'White balance',
+    cameraColorTemperature: 'Color temperature',
+    cameraResolution: 'Resolution',
+    cameraAuto: 'Auto',
+    cameraManual: 'Manual',
     // Crop Screen
     locatingIris: 'Locating Iris...',
     locatingIrisSub: 'Our AI is analyzing your photo to find the eye.',
@@ -45,11 +68,38 @@ export const translations = {
     cropSize: 'Size',
     decreaseCrop: 'Decrease crop size',
     increaseCrop: 'Increase crop size',
+    irisNotFoundManual: "Couldn't find the iris automatically. Drag and resize the circle to frame it.",
+    refiningCrop: 'Refining with AI...',
     retake: 'Retake',
     continue: 'Continue',
     // Processing Screen
     enhancing: 'Enhancing Your Photo...',
-    enhancingSub: 'Our AI is revealing the hidden beauty of your iris.',
+    stageCropping: 'Cropping your iris…',
+    stageUploading: 'Uploading the crop…',
+    stageEnhancing: 'Our AI is revealing the hidden beauty of your iris.',
+    stageNormalizing: 'Checking details and sharpening…',
+    stageComposing: 'Preparing the before/after comparison…',
+    cancelProcessing: 'Cancel and adjust crop',
+    queueAndCaptureNext: 'Enhance in background & capture next',
+    photoQueued: 'Photo queued. It will appear in your gallery when it is ready.',
+    processingQueue: 'Processing',
+    jobQueued: 'Waiting…',
+    jobRunning: 'Enhancing…',
+    removeJob: 'Remove from queue',
+    newResults: 'New photos in the gallery',
+    processingInBackground: 'Photos are being enhanced in the background',
+    // Both-eyes sessions
+    leftEye: 'Left eye',
+    rightEye: 'Right eye',
+    captureBothEyes: 'Both eyes',
+    pairSessionLeft: 'Step 1 of 2: your left eye',
+    pairSessionRight: 'Step 2 of 2: your right eye',
+    endPairSession: 'End both-eyes session',
+    pairLeftDone: 'Left eye done. Now photograph your right eye.',
+    pairComplete: 'Both eyes are ready.',
+    eyePair: 'Eye pair',
+    readBothEyes: 'Read both eyes',
+    captureBothEyesForReading: 'Capture Both Eyes',
     // Enhance Result Screen
     enhancementComplete: 'Enhancement Complete!',
     continueToEdit: 'Continue to Edit',
@@ -61,16 +111,54 @@ export const translations = {
     baseImage: 'Base Image',
     applyingEffect: 'Applying',
     aiEffects: 'AI Effects',
+    myEffects: 'My Effects',
+    effectsUnavailable: 'Effects could not be loaded. Check your connection and reopen the editor.',
+    proBadge: 'PRO',
+    variations: 'Variations',
+    variationsCost: 'Each variation after the first costs 1 credit, charged when it is generated.',
+    variation: 'Variation',
+    useVariation: 'Use this variation',
+    structureDrift: 'Iris details may have changed',
+    structureDriftEnhancement: 'The enhanced image doesn\'t match the fibers of your photo closely. Try again for a more faithful result.',
+    structureDriftEffect: 'This effect altered the iris structure more than expected. Try again for a more faithful result.',
+    structureDriftIridology: 'The enhanced image may not show your real iris fibers, so a reading could be misleading. Re-enhancing usually fixes this.',
+    structureFlagged: 'Iris changed',
+    reEnhance: 'Re-enhance photo',
+    adjust: 'Adjust',
+    adjustExposure: 'Exposure',
+    adjustContrast: 'Contrast',
+    adjustSaturation: 'Saturation',
+    adjustVibrance: 'Vibrance',
+    adjustClarity: 'Clarity',
+    adjustVignette: 'Vignette',
+    adjustHue: 'Hue',
+    resetAdjustments: 'Reset Adjustments',
+    effectIntensity: 'Effect Intensity',
+    protectIris: 'Keep iris untouched',
+    protectedArea: 'Protected area',
+    stackEffects: 'Stack on current result',
+    editSteps: 'Steps',
+    noEditSteps: 'No edits yet. Apply an effect or adjustment to start.',
+    stackedStep: 'Stacked on the previous step',
+    moveStepUp: 'Move step earlier',
+    moveStepDown: 'Move step later',
+    dropStep: 'Remove step',
+    customEffects: 'Custom…',
+    editCustomEffect: 'Custom Effect',
+    presetName: 'Name',
+    presetPrompt: 'Prompt',
+    presetPromptHint: 'Keep the pure black background and structure rules so results match the built-in effects.',
+    useTemplate: 'Start from template',
+    savePreset: 'Save Preset',
+    newPreset: 'New Custom Effect',
+    deletePreset: 'Delete preset',
+    noPresets: 'You have no custom effects yet.',
+    importPresets: 'Import',
+    exportPresets: 'Export',
+    presetsImported: 'Presets imported.',
+    presetsImportedNone: 'No new presets found in that file.',
+    presetsImportFailed: 'That file is not a valid SnapEyes preset file.',
     export: 'Export',
-    // Effects
-    cosmic: 'Cosmic',
-    luminous: 'Luminous',
-    celestial: 'Celestial',
-    liquid: 'Liquid',
-    ethereal: 'Ethereal',
-    aura: 'Aura',
-    shatter: 'Shatter',
-    inferno: 'Inferno',
     // Export Screen
     exportTitle: 'Export & Share',
     exportSub: 'Your photo is ready!',
@@ -125,6 +213,7 @@ export const translations = {
     myGallery: 'My Gallery',
     galleryEmpty: 'Your saved photos will appear here.',
     galleryEmptySub: 'Go capture your first one!',
+    reEditPhoto: 'Open photo in editor',
     // Store Screen
     storeTitle: 'Store',
     storeSub: 'Purchase credits to create more photos.',
@@ -146,7 +235,55 @@ export const translations = {
     deleteData: 'Request Data Deletion',
     termsAbout: 'Terms & About',
     language: 'Language',
+    detection: 'Detection',
+    cloudRefinement: 'AI crop refinement',
+    cloudRefinementSub: 'Refine the on-device iris crop with a cloud model. Slower and needs a connection.',
+    imageQuality: 'Working resolution',
+    imageQualitySub: 'Size of the enhanced photo and your edits. Higher keeps more real detail from the camera but uses more memory and storage.',
     appVersion: 'App Version',
+    // AI errors
+    aiErrorQuota: 'The AI service is busy or out of quota. Please try again in a few minutes.',
+    aiErrorSafety: 'The AI declined this photo because of its safety filters. Try a different photo.',
+    aiErrorNetwork: "Couldn't reach the AI service. Check your connection and try again.",
+    aiErrorTimeout: 'The AI service took too long to respond. Please try again.',
+    aiErrorMalformed: 'The AI returned an unexpected result. Please try again.',
+    aiErrorUnknown: 'Something went wrong. Please try again.',
+    // Errors
+    cameraErrorTitle: 'Camera Unavailable',
+    cameraPermissionDenied: 'Camera access was denied. Allow camera access in your browser settings, then try again.',
+    detectionFailedSub: 'We could not find an eye in this photo. Try a closer, well-lit shot.',
+    imageLoadFailed: 'The image file could not be loaded.',
+    enhancementFailed: 'Enhancement Failed',
+    effectFailed: "Couldn't Apply Effect",
+    renderFailed: "Couldn't Update Photo",
+    adjustmentsRenderFailed: 'Your adjustments could not be applied. The photo was left as it was.',
+    blendRenderFailed: 'The effect intensity and mask could not be updated. The effect was left as it was.',
+    outOfCredits: 'Out of Credits',
+    outOfCreditsSub: 'You need a credit to export this photo.',
+    serviceBusy: 'AI Service Busy',
+    exportFailed: 'Export Failed',
+    exportFailedSub: 'Something went wrong while exporting. Please try again.',
+    shareUnsupported: 'Sharing is not supported on this browser, so the image was downloaded instead.',
+    videoUnsupported: 'Video generation is not supported on this device or browser.',
+    videoFailed: 'Could not generate the animation on this device.',
+    storageFailed: 'Gallery Unavailable',
+    storageSaveFailed: 'This photo could not be saved to your gallery. It will be lost when you close the app.',
+    storageLoadFailed: 'Your saved photos could not be loaded.',
+    jobSaveFailed: 'The enhanced photo could not be saved to your gallery.',
+    queueSaveFailed: 'The photo could not be queued. Tap Continue to enhance it now instead.',
+    importFailed: "Couldn't Open Photo",
+    importUnreadable: 'This file could not be read as a photo. Try a JPEG, PNG, WebP or HEIC image.',
+    importHeicUnsupported: 'This browser cannot open HEIC photos. Export the photo as JPEG on your phone, or take it with the camera here.',
+    importRawNoPreview: 'This RAW file has no embedded preview to use. Export it as JPEG first.',
+    importRotated: 'Rotated upright',
+    importConvertedFrom: 'Converted from',
+    importLocationRemoved: 'Location data removed',
+    importDownscaled: 'Reduced to a workable size',
+    dismiss: 'Dismiss',
+    privacyPolicyInfo: 'Link to privacy policy would go here.',
+    deleteDataInfo: 'A request would be sent to delete your data.',
+    aboutInfo: 'App Version 1.0.0',
+    proSubscribed: 'Subscribed to SnapEyes Pro! (This is a simulation)',
   },
   lt: {
     // Onboarding
@@ -182,6 +319,29 @@ export const translations = {
     autoCaptureHint: 'Nukreipkite akį į vaizdą, kad pradėtumėte',
     eyeDetectedHoldSteady: 'Akis aptikta. Laikykite stabiliai.',
     holdSteady: 'Laikykite stabiliai...',
+    burstCapture: 'Serijinis fotografavimas',
+    burstCapturing: 'Nejudėkite, renkamas ryškiausias kadras...',
+    burstFailed: 'Nepavyko užfiksuoti kadrų serijos. Bandykite dar kartą arba išjunkite serijos režimą.',
+    hintTooDark: 'Per tamsu, raskite daugiau šviesos',
+    hintTooBright: 'Per šviesu, pasitraukite iš tiesioginės šviesos',
+    hintMoveCloser: 'Priartėkite',
+    hintEyelid: 'Plačiau atmerkite akį',
+    hintGlare: 'Atspindys ant rainelės, šiek tiek pakreipkite telefoną',
+    hintBlurry: 'Nejudėkite, kad rainelė būtų ryški',
+    hintGoodShot: 'Atrodo gerai, fotografuokite',
+    cameraControls: 'Fotoaparato nustatymai',
+    cameraTorch: 'Žibintuvėlis',
+    cameraOn: 'Įjungta',
+    cameraOff: 'Išjungta',
+    cameraZoom: 'Priartinimas',
+    cameraFocus: 'Fokusavimas',
+    cameraFocusDistance: 'Fokusavimo atstumas',
+    cameraExposure: 'Ekspozicija',
+    cameraWhiteBalance: 'Baltos spalvos balansas',
+    cameraColorTemperature: 'Spalvų temperatūra',
+    cameraResolution: 'Raiška',
+    cameraAuto: 'Automatinis',
+    cameraManual: 'Rankinis',
     // Crop Screen
     locatingIris: 'Ieškoma rainelės...',
     locatingIrisSub: 'Mūsų DI analizuoja jūsų nuotrauką, kad rastų akį.',
@@ -192,11 +352,38 @@ export const translations = {
     cropSize: 'Dydis',
     decreaseCrop: 'Sumažinti apkirpimo dydį',
     increaseCrop: 'Padidinti apkirpimo dydį',
+    irisNotFoundManual: 'Nepavyko automatiškai rasti rainelės. Vilkite ir keiskite apskritimo dydį, kad ją įrėmintumėte.',
+    refiningCrop: 'Tikslinama su DI...',
     retake: 'Iš naujo',
     continue: 'Tęsti',
     // Processing Screen
     enhancing: 'Tobulinama jūsų nuotrauka...',
-    enhancingSub: 'Mūsų DI atskleidžia paslėptą jūsų rainelės grožį.',
+    stageCropping: 'Apkarpoma rainelė…',
+    stageUploading: 'Siunčiamas apkarpytas vaizdas…',
+    stageEnhancing: 'Mūsų DI atskleidžia paslėptą jūsų rainelės grožį.',
+    stageNormalizing: 'Tikrinamos detalės ir ryškinama…',
+    stageComposing: 'Ruošiamas palyginimas prieš ir po…',
+    cancelProcessing: 'Atšaukti ir koreguoti apkarpymą',
+    queueAndCaptureNext: 'Tobulinti fone ir fotografuoti kitą',
+    photoQueued: 'Nuotrauka įtraukta į eilę. Ji atsiras galerijoje, kai bus paruošta.',
+    processingQueue: 'Apdorojama',
+    jobQueued: 'Laukiama…',
+    jobRunning: 'Tobulinama…',
+    removeJob: 'Pašalinti iš eilės',
+    newResults: 'Naujos nuotraukos galerijoje',
+    processingInBackground: 'Nuotraukos tobulinamos fone',
+    // Both-eyes sessions
+    leftEye: 'Kairė akis',
+    rightEye: 'Dešinė akis',
+    captureBothEyes: 'Abi akys',
+    pairSessionLeft: '1 žingsnis iš 2: kairė akis',
+    pairSessionRight: '2 žingsnis iš 2: dešinė akis',
+    endPairSession: 'Baigti abiejų akių seansą',
+    pairLeftDone: 'Kairė akis paruošta. Dabar nufotografuokite dešinę akį.',
+    pairComplete: 'Abi akys paruoštos.',
+    eyePair: 'Akių pora',
+    readBothEyes: 'Analizuoti abi akis',
+    captureBothEyesForReading: 'Fotografuoti abi akis',
     // Enhance Result Screen
     enhancementComplete: 'Patobulinimas baigtas!',
     continueToEdit: 'Tęsti redagavimą',
@@ -208,16 +395,54 @@ export const translations = {
     baseImage: 'Bazinė nuotrauka',
     applyingEffect: 'Taikomas',
     aiEffects: 'DI Efektai',
+    myEffects: 'Mano efektai',
+    effectsUnavailable: 'Nepavyko įkelti efektų. Patikrinkite ryšį ir vėl atidarykite redaktorių.',
+    proBadge: 'PRO',
+    variations: 'Variantai',
+    variationsCost: 'Kiekvienas variantas po pirmojo kainuoja 1 kreditą, nuskaitomą jį sugeneravus.',
+    variation: 'Variantas',
+    useVariation: 'Naudoti šį variantą',
+    structureDrift: 'Rainelės detalės galėjo pasikeisti',
+    structureDriftEnhancement: 'Patobulinta nuotrauka menkai atitinka jūsų nuotraukos rainelės skaidulas. Bandykite dar kartą, kad rezultatas būtų tikslesnis.',
+    structureDriftEffect: 'Šis efektas pakeitė rainelės struktūrą labiau nei tikėtasi. Bandykite dar kartą, kad rezultatas būtų tikslesnis.',
+    structureDriftIridology: 'Patobulintoje nuotraukoje gali nesimatyti tikrųjų jūsų rainelės skaidulų, todėl analizė gali būti klaidinanti. Dažniausiai padeda pakartotinis patobulinimas.',
+    structureFlagged: 'Rainelė pakito',
+    reEnhance: 'Patobulinti iš naujo',
+    adjust: 'Koreguoti',
+    adjustExposure: 'Ekspozicija',
+    adjustContrast: 'Kontrastas',
+    adjustSaturation: 'Sodrumas',
+    adjustVibrance: 'Gyvumas',
+    adjustClarity: 'Aiškumas',
+    adjustVignette: 'Vinjetė',
+    adjustHue: 'Atspalvis',
+    resetAdjustments: 'Atstatyti korekcijas',
+    effectIntensity: 'Efekto stiprumas',
+    protectIris: 'Nekeisti rainelės',
+    protectedArea: 'Apsaugota sritis',
+    stackEffects: 'Taikyti ant dabartinio rezultato',
+    editSteps: 'Žingsniai',
+    noEditSteps: 'Kol kas nėra pakeitimų. Pritaikykite efektą arba korekciją.',
+    stackedStep: 'Pritaikyta ant ankstesnio žingsnio',
+    moveStepUp: 'Perkelti žingsnį anksčiau',
+    moveStepDown: 'Perkelti žingsnį vėliau',
+    dropStep: 'Pašalinti žingsnį',
+    customEffects: 'Savi…',
+    editCustomEffect: 'Savas efektas',
+    presetName: 'Pavadinimas',
+    presetPrompt: 'Užklausa',
+    presetPromptHint: 'Palikite grynai juodo fono ir struktūros taisykles, kad rezultatai derėtų su integruotais efektais.',
+    useTemplate: 'Pradėti nuo šablono',
+    savePreset: 'Išsaugoti',
+    newPreset: 'Naujas savas efektas',
+    deletePreset: 'Ištrinti šabloną',
+    noPresets: 'Kol kas neturite savų efektų.',
+    importPresets: 'Importuoti',
+    exportPresets: 'Eksportuoti',
+    presetsImported: 'Šablonai importuoti.',
+    presetsImportedNone: 'Šiame faile naujų šablonų nerasta.',
+    presetsImportFailed: 'Šis failas nėra tinkamas SnapEyes šablonų failas.',
     export: 'Eksportuoti',
-    // Effects
-    cosmic: 'Kosminis',
-    luminous: 'Švytintis',
-    celestial: 'Dangiškas',
-    liquid: 'Skystas',
-    ethereal: 'Eteriškas',
-    aura: 'Aura',
-    shatter: 'Sudužęs',
-    inferno: 'Pragaras',
     // Export Screen
     exportTitle: 'Eksportuoti ir dalintis',
     exportSub: 'Jūsų nuotrauka paruošta!',
@@ -272,6 +497,7 @@ export const translations = {
     myGallery: 'Mano galerija',
     galleryEmpty: 'Jūsų išsaugotos nuotraukos atsiras čia.',
     galleryEmptySub: 'Nufotografuokite savo pirmąją!',
+    reEditPhoto: 'Atidaryti nuotrauką redaktoriuje',
     // Store Screen
     storeTitle: 'Parduotuvė',
     storeSub: 'Pirkite kreditų, kad sukurtumėte daugiau nuotraukų.',
@@ -293,6 +519,54 @@ export const translations = {
     deleteData: 'Prašyti ištrinti duomenis',
     termsAbout: 'Sąlygos ir informacija',
     language: 'Kalba',
+    detection: 'Aptikimas',
+    cloudRefinement: 'DI apkirpimo tikslinimas',
+    cloudRefinementSub: 'Patikslinti įrenginyje rastą rainelės apkirpimą debesijos modeliu. Lėčiau ir reikia interneto ryšio.',
+    imageQuality: 'Darbinė raiška',
+    imageQualitySub: 'Patobulintos nuotraukos ir jūsų pakeitimų dydis. Didesnė raiška išsaugo daugiau tikrų kameros detalių, bet naudoja daugiau atminties ir vietos.',
     appVersion: 'Programėlės versija',
+    // AI errors
+    aiErrorQuota: 'DI paslauga užimta arba išnaudota kvota. Bandykite dar kartą po kelių minučių.',
+    aiErrorSafety: 'DI atmetė šią nuotrauką dėl saugumo filtrų. Pabandykite kitą nuotrauką.',
+    aiErrorNetwork: 'Nepavyko pasiekti DI paslaugos. Patikrinkite ryšį ir bandykite dar kartą.',
+    aiErrorTimeout: 'DI paslauga per ilgai neatsakė. Bandykite dar kartą.',
+    aiErrorMalformed: 'DI grąžino netikėtą rezultatą. Bandykite dar kartą.',
+    aiErrorUnknown: 'Kažkas nepavyko. Bandykite dar kartą.',
+    // Errors
+    cameraErrorTitle: 'Fotoaparatas nepasiekiamas',
+    cameraPermissionDenied: 'Prieiga prie fotoaparato atmesta. Leiskite ją naršyklės nustatymuose ir bandykite dar kartą.',
+    detectionFailedSub: 'Šioje nuotraukoje nepavyko rasti akies. Pabandykite artimesnę, gerai apšviestą nuotrauką.',
+    imageLoadFailed: 'Nepavyko įkelti vaizdo failo.',
+    enhancementFailed: 'Patobulinti nepavyko',
+    effectFailed: 'Nepavyko pritaikyti efekto',
+    renderFailed: 'Nepavyko atnaujinti nuotraukos',
+    adjustmentsRenderFailed: 'Jūsų koregavimų pritaikyti nepavyko. Nuotrauka liko tokia, kokia buvo.',
+    blendRenderFailed: 'Nepavyko atnaujinti efekto intensyvumo ir kaukės. Efektas liko toks, koks buvo.',
+    outOfCredits: 'Baigėsi kreditai',
+    outOfCreditsSub: 'Norint eksportuoti šią nuotrauką, reikia kredito.',
+    serviceBusy: 'DI paslauga užimta',
+    exportFailed: 'Eksportuoti nepavyko',
+    exportFailedSub: 'Eksportuojant įvyko klaida. Bandykite dar kartą.',
+    shareUnsupported: 'Ši naršyklė nepalaiko bendrinimo, todėl vaizdas buvo atsisiųstas.',
+    videoUnsupported: 'Šiame įrenginyje ar naršyklėje vaizdo įrašų kūrimas nepalaikomas.',
+    videoFailed: 'Šiame įrenginyje nepavyko sukurti animacijos.',
+    storageFailed: 'Galerija nepasiekiama',
+    storageSaveFailed: 'Šios nuotraukos nepavyko išsaugoti galerijoje. Uždarius programėlę ji bus prarasta.',
+    storageLoadFailed: 'Nepavyko įkelti išsaugotų nuotraukų.',
+    jobSaveFailed: 'Patobulintos nuotraukos nepavyko išsaugoti galerijoje.',
+    queueSaveFailed: 'Nuotraukos nepavyko įtraukti į eilę. Palieskite „Tęsti“, kad ją patobulintumėte dabar.',
+    importFailed: 'Nepavyko atidaryti nuotraukos',
+    importUnreadable: 'Šio failo nepavyko nuskaityti kaip nuotraukos. Pabandykite JPEG, PNG, WebP arba HEIC vaizdą.',
+    importHeicUnsupported: 'Ši naršyklė negali atidaryti HEIC nuotraukų. Eksportuokite nuotrauką kaip JPEG telefone arba nufotografuokite ją čia.',
+    importRawNoPreview: 'Šiame RAW faile nėra įterpto peržiūros vaizdo. Pirmiausia eksportuokite jį kaip JPEG.',
+    importRotated: 'Pasukta tiesiai',
+    importConvertedFrom: 'Konvertuota iš',
+    importLocationRemoved: 'Vietos duomenys pašalinti',
+    importDownscaled: 'Sumažinta iki tinkamo dydžio',
+    dismiss: 'Uždaryti',
+    privacyPolicyInfo: 'Čia būtų nuoroda į privatumo politiką.',
+    deleteDataInfo: 'Būtų išsiųstas prašymas ištrinti jūsų duomenis.',
+    aboutInfo: 'Programėlės versija 1.0.0',
+    proSubscribed: 'Užsiprenumeravote SnapEyes Pro! (Tai simuliacija)',
   },
 };
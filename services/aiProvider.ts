@@ -0,0 +1,83 @@
+import { EyeSide, IridologyAnalysis, IrisDetectionResult } from "../types";
+import { Language } from "../lib/localization";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createLocalServerProvider } from "./providers/localServerProvider";
+import { MockScenario, createMockProvider } from "./providers/mockProvider";
+import type { AiCallOptions } from "./aiRequest";
+
+export type AiOperation =
+    | 'findEyeInFrame'
+    | 'detectIris'
+    | 'enhanceEyeImage'
+    | 'applyEffectToEyeImage'
+    | 'analyzeIrisForIridology';
+
+// Which model a provider uses for each operation. Providers fill in their own defaults;
+// AI_MODELS can override any of them.
+export type AiModelMap = Record<AiOperation, string>;
+
+// Everything the app needs from an AI backend. Images go in and come out as raw base64 (no data URL prefix).
+// Detection resolves with `success: false` when there is simply no eye; transport, safety and parsing
+// problems are thrown so the request wrapper can classify, retry or surface them.
+// Providers should pass `options.signal` on to their transport so timeouts and cancellation free the connection.
+export interface AiProvider {
+    readonly id: string;
+    readonly models: AiModelMap;
+    findEyeInFrame(base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult>;
+    detectIris(base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult>;
+    enhanceEyeImage(base64ImageData: string, options?: AiCallOptions): Promise<string>;
+    applyEffectToEyeImage(base64ImageData: string, effectPrompt: string, options?: AiCallOptions): Promise<string>;
+    // `eye` picks the iris chart; unknown for photos taken outside a both-eyes session.
+    analyzeIrisForIridology(base64ImageData: string, language: Language, eye?: EyeSide, options?: AiCallOptions): Promise<IridologyAnalysis>;
+}
+
+export type AiProviderId = 'gemini' | 'local' | 'mock';
+
+const parseModelOverrides = (raw: string | undefined): Partial<AiModelMap> => {
+    if (!raw) return {};
+    try {
+        return JSON.parse(raw);
+    } catch (e) {
+        console.warn("AI_MODELS is not valid JSON and will be ignored.");
+        return {};
+    }
+};
+
+const MOCK_SCENARIOS: MockScenario[] = ['success', 'slow', 'fail', 'timeout', 'quota', 'safety', 'malformed'];
+
+const parseMockScenario = (raw: string | undefined): MockScenario => {
+    return MOCK_SCENARIOS.find(scenario => scenario === raw) ?? 'success';
+};
+
+const createProvider = (): AiProvider => {
+    // Without an explicit choice or an API key there is nothing to talk to, so fall back to the mock.
+    const providerId = (process.env.AI_PROVIDER || (process.env.API_KEY ? 'gemini' : 'mock')) as AiProviderId;
+    const models = parseModelOverrides(process.env.AI_MODELS);
+
+    switch (providerId) {
+        case 'mock': {
+            const scenario = parseMockScenario(process.env.AI_MOCK_SCENARIO);
+            console.info(`Using the offline mock AI provider (scenario: ${scenario}).`);
+            return createMockProvider(scenario);
+        }
+        case 'local':
+            return createLocalServerProvider({
+                baseUrl: process.env.AI_LOCAL_URL || 'http://localhost:8787',
+                models,
+            });
+        case 'gemini':
+            return createGeminiProvider({ apiKey: process.env.API_KEY, models });
+        default:
+            console.warn(`Unknown AI_PROVIDER "${providerId}", falling back to Gemini.`);
+            return createGeminiProvider({ apiKey: process.env.API_KEY, models });
+    }
+};
+
+let provider: AiProvider | null = null;
+
+export const getAiProvider = (): AiProvider => {
+    if (!provider) {
+        provider = createProvider();
+    }
+    return provider;
+};
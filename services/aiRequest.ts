@@ -0,0 +1,175 @@
+import type { AiOperation } from "./aiProvider";
+import type { translations } from "../lib/translations";
+
+// Shared policy for every AI call: a per-operation timeout, exponential backoff on transient
+// failures, caller cancellation through AbortSignal, and one error type the UI can switch on.
+
+export type AiErrorCategory =
+    | 'quota'       // rate limited or out of quota (HTTP 429)
+    | 'safety'      // the request or the generated content was blocked by safety filters
+    | 'network'     // offline, DNS, connection reset, or the service is temporarily unavailable (5xx)
+    | 'timeout'     // no answer within the operation's time limit
+    | 'malformed'   // the model answered, but not with the JSON/image we asked for
+    | 'cancelled'   // the caller aborted, e.g. the screen unmounted
+    | 'unknown';
+
+export class AiRequestError extends Error {
+    readonly category: AiErrorCategory;
+
+    constructor(category: AiErrorCategory, message: string, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'AiRequestError';
+        this.category = category;
+    }
+}
+
+export interface AiCallOptions {
+    signal?: AbortSignal;
+}
+
+export interface AiRequestOptions extends AiCallOptions {
+    timeoutMs?: number;
+    maxAttempts?: number;
+}
+
+const DEFAULT_TIMEOUT_MS: Record<AiOperation, number> = {
+    findEyeInFrame: 10_000,
+    detectIris: 120_000, // runs with a large thinking budget
+    enhanceEyeImage: 90_000,
+    applyEffectToEyeImage: 90_000,
+    analyzeIrisForIridology: 90_000,
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 800;
+
+// Timeouts are not retried: the limits are already generous, and a second 90s wait helps nobody.
+const RETRYABLE: AiErrorCategory[] = ['network'];
+
+export const isCancelled = (error: unknown): boolean =>
+    error instanceof AiRequestError && error.category === 'cancelled';
+
+const ERROR_MESSAGE_KEYS: Record<AiErrorCategory, keyof typeof translations.en> = {
+    quota: 'aiErrorQuota',
+    safety: 'aiErrorSafety',
+    network: 'aiErrorNetwork',
+    timeout: 'aiErrorTimeout',
+    malformed: 'aiErrorMalformed',
+    cancelled: 'aiErrorUnknown',
+    unknown: 'aiErrorUnknown',
+};
+
+// Translation key for the message shown to the user, e.g. `t(aiErrorMessageKey(error))`.
+export const aiErrorMessageKey = (error: unknown): keyof typeof translations.en =>
+    ERROR_MESSAGE_KEYS[classifyAiError(error)];
+
+const SAFETY_PATTERN = /safety|blocked|prohibited|blocklist/i;
+const NETWORK_PATTERN = /failed to fetch|network|load failed|fetch failed|ECONNRESET|ETIMEDOUT/i;
+
+export const classifyAiError = (error: unknown): AiErrorCategory => {
+    if (error instanceof AiRequestError) return error.category;
+    if (error instanceof SyntaxError) return 'malformed';
+
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') {
+        if (status === 429) return 'quota';
+        if (status === 408) return 'timeout';
+        if (status >= 500) return 'network';
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return 'quota';
+    if (SAFETY_PATTERN.test(message)) return 'safety';
+    if (error instanceof TypeError || NETWORK_PATTERN.test(message)) return 'network';
+    return 'unknown';
+};
+
+const toAiRequestError = (error: unknown): AiRequestError => {
+    if (error instanceof AiRequestError) return error;
+    const message = error instanceof Error ? error.message : 'The AI request failed.';
+    return new AiRequestError(classifyAiError(error), message, error);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new AiRequestError('cancelled', 'The request was cancelled.'));
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AiRequestError('cancelled', 'The request was cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One attempt: links the caller's signal and a timeout into a single signal for the call,
+// and races the call against it so a provider that ignores the signal still can't hang us.
+const attempt = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, callerSignal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    return new Promise<T>((resolve, reject) => {
+        const onCallerAbort = () => {
+            controller.abort();
+            reject(new AiRequestError('cancelled', 'The request was cancelled.'));
+        };
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+            reject(new AiRequestError('timeout', `The AI service did not respond within ${Math.round(timeoutMs / 1000)} seconds.`));
+        }, timeoutMs);
+        const cleanup = () => {
+            clearTimeout(timer);
+            callerSignal?.removeEventListener('abort', onCallerAbort);
+        };
+
+        if (callerSignal?.aborted) {
+            cleanup();
+            onCallerAbort();
+            return;
+        }
+        callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+        call(controller.signal).then(
+            (value) => {
+                cleanup();
+                resolve(value);
+            },
+            (error) => {
+                cleanup();
+                if (callerSignal?.aborted) {
+                    reject(new AiRequestError('cancelled', 'The request was cancelled.', error));
+                } else if (timedOut) {
+                    reject(new AiRequestError('timeout', 'The AI service took too long to respond.', error));
+                } else {
+                    reject(toAiRequestError(error));
+                }
+            }
+        );
+    });
+};
+
+export async function runAiRequest<T>(
+    operation: AiOperation,
+    call: (signal: AbortSignal) => Promise<T>,
+    { signal, timeoutMs = DEFAULT_TIMEOUT_MS[operation], maxAttempts = DEFAULT_MAX_ATTEMPTS }: AiRequestOptions = {}
+): Promise<T> {
+    for (let attemptNumber = 1; ; attemptNumber++) {
+        try {
+            return await attempt(call, timeoutMs, signal);
+        } catch (error) {
+            const requestError = toAiRequestError(error);
+            if (!RETRYABLE.includes(requestError.category) || attemptNumber >= maxAttempts) {
+                throw requestError;
+            }
+            // 0.8s, 1.6s, ... with jitter so parallel calls don't retry in lockstep.
+            const backoff = BASE_BACKOFF_MS * 2 ** (attemptNumber - 1) * (0.75 + Math.random() * 0.5);
+            console.warn(`${operation} failed (${requestError.category}), retrying in ${Math.round(backoff)}ms.`);
+            await wait(backoff, signal);
+        }
+    }
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { EffectCatalog, EffectCategory, EffectDefinition, EffectKey, LocalizedText } from '../types';
+import { Language } from '../lib/localization';
+
+// The AI effects offered in EditScreen come from a JSON manifest shipped in public/effects, next to
+// their thumbnails. Adding an effect means adding an entry there; no code or translation changes.
+// `version` is bumped whenever the format changes in a way older app builds can't read.
+
+const CATALOG_URL = 'effects/catalog.json';
+export const CATALOG_VERSION = 1;
+
+const isLocalizedText = (value: unknown): value is LocalizedText =>
+  typeof (value as LocalizedText | null)?.en === 'string';
+
+const isEffectDefinition = (value: unknown): value is EffectDefinition => {
+  const effect = value as Partial<EffectDefinition> | null;
+  return typeof effect?.id === 'string'
+    // The prefix is reserved for the user's own presets.
+    && !effect.id.startsWith('custom:')
+    && typeof effect.category === 'string'
+    && isLocalizedText(effect.name)
+    && typeof effect.prompt === 'string' && effect.prompt.length > 0
+    && typeof effect.thumbnail === 'string'
+    && typeof effect.credits === 'number' && effect.credits >= 0
+    && typeof effect.proOnly === 'boolean';
+};
+
+const isEffectCategory = (value: unknown): value is EffectCategory =>
+  typeof (value as EffectCategory | null)?.id === 'string' && isLocalizedText((value as EffectCategory).name);
+
+// Skips malformed entries rather than failing the whole catalog, so one bad effect can't take the others down.
+const parseCatalog = (raw: unknown): EffectCatalog => {
+  const data = raw as Partial<EffectCatalog> | null;
+  if (data?.version !== CATALOG_VERSION) {
+    throw new Error(`Unsupported effect catalog version: ${String(data?.version)}.`);
+  }
+  const effects = (Array.isArray(data.effects) ? data.effects : []).filter((effect: unknown) => {
+    if (isEffectDefinition(effect)) return true;
+    console.warn('Skipping invalid effect catalog entry:', effect);
+    return false;
+  });
+  const categories = (Array.isArray(data.categories) ? data.categories : []).filter(isEffectCategory);
+  return { version: data.version, categories, effects };
+};
+
+let catalogPromise: Promise<EffectCatalog> | null = null;
+
+export const loadEffectCatalog = (): Promise<EffectCatalog> => {
+  if (!catalogPromise) {
+    catalogPromise = fetch(CATALOG_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Could not load the effect catalog (${response.status}).`);
+        return response.json();
+      })
+      .then(parseCatalog);
+    // Allow a later call to retry if loading failed.
+    catalogPromise.catch(() => {
+      catalogPromise = null;
+    });
+  }
+  return catalogPromise;
+};
+
+export const findEffect = (catalog: EffectCatalog | null, id: EffectKey | null | undefined): EffectDefinition | undefined =>
+  id ? catalog?.effects.find(effect => effect.id === id) : undefined;
+
+export const localize = (text: LocalizedText, language: Language): string => text[language] || text.en;
+
+// Effects grouped in catalog order. Effects whose category isn't listed go into an unnamed last group.
+export const groupEffectsByCategory = (catalog: EffectCatalog): { category: EffectCategory | null; effects: EffectDefinition[] }[] => {
+  const groups: { category: EffectCategory | null; effects: EffectDefinition[] }[] = catalog.categories
+    .map(category => ({ category, effects: catalog.effects.filter(effect => effect.category === category.id) }))
+    .filter(group => group.effects.length > 0);
+  const uncategorized = catalog.effects.filter(effect => !catalog.categories.some(category => category.id === effect.category));
+  if (uncategorized.length > 0) groups.push({ category: null, effects: uncategorized });
+  return groups;
+};
+
+export const useEffectCatalog = () => {
+  const [catalog, setCatalog] = useState<EffectCatalog | null>(null);
+  const [error, setError] = useState<unknown>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadEffectCatalog()
+      .then(loaded => {
+        if (isMounted) setCatalog(loaded);
+      })
+      .catch(loadError => {
+        console.error('Could not load the effect catalog:', loadError);
+        if (isMounted) setError(loadError);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return { catalog, error };
+};
@@ -0,0 +1,90 @@
+import { EditHistoryState, EffectBlend, EyeSide, HistoryItem } from '../types';
+import { HISTORY_STORE, openDatabase, requestPersistentStorage, requestToPromise, transactionDone } from '../lib/db';
+import { blobToDataUrl, dataUrlToBlob } from '../lib/dataUrl';
+
+// The shape persisted in IndexedDB. Images are kept as Blobs rather than data URLs:
+// they are roughly 25% smaller and don't count against any string size limits.
+interface StoredHistoryItem {
+  id: string;
+  createdAt: number;
+  thumbnail: Blob;
+  original: Blob;
+  enhanced: Blob;
+  edits: StoredEditState[];
+  editIndex: number;
+  // Absent on records saved before both-eyes sessions existed.
+  eye?: EyeSide;
+  pairId?: string;
+  structureDrifted?: boolean;
+}
+
+interface StoredEditState extends Omit<EditHistoryState, 'image' | 'blend'> {
+  image: Blob;
+  blend?: Omit<EffectBlend, 'output'> & { output: Blob };
+}
+
+const toStoredEdit = async ({ blend, ...edit }: EditHistoryState): Promise<StoredEditState> => ({
+  ...edit,
+  image: await dataUrlToBlob(edit.image),
+  ...(blend && { blend: { ...blend, output: await dataUrlToBlob(blend.output) } }),
+});
+
+const fromStoredEdit = async ({ blend, ...edit }: StoredEditState): Promise<EditHistoryState> => ({
+  ...edit,
+  image: await blobToDataUrl(edit.image),
+  ...(blend && { blend: { ...blend, output: await blobToDataUrl(blend.output) } }),
+});
+
+const toStored = async (item: HistoryItem): Promise<StoredHistoryItem> => {
+  const [thumbnail, original, enhanced, edits] = await Promise.all([
+    dataUrlToBlob(item.thumbnail),
+    dataUrlToBlob(item.original),
+    dataUrlToBlob(item.enhanced),
+    Promise.all(item.edits.map(toStoredEdit)),
+  ]);
+  return {
+    id: item.id,
+    createdAt: Number(item.id) || Date.now(),
+    thumbnail,
+    original,
+    enhanced,
+    edits,
+    editIndex: item.editIndex,
+    eye: item.eye,
+    pairId: item.pairId,
+    structureDrifted: item.structureDrifted,
+  };
+};
+
+const fromStored = async (record: StoredHistoryItem): Promise<HistoryItem> => {
+  // The rest of the app works with data URLs (e.g. it slices out base64 for the AI calls),
+  // so convert back on load instead of handing out object URLs.
+  const [thumbnail, original, enhanced, edits] = await Promise.all([
+    blobToDataUrl(record.thumbnail),
+    blobToDataUrl(record.original),
+    blobToDataUrl(record.enhanced),
+    Promise.all(record.edits.map(fromStoredEdit)),
+  ]);
+  return { id: record.id, thumbnail, original, enhanced, edits, editIndex: record.editIndex, eye: record.eye, pairId: record.pairId, structureDrifted: record.structureDrifted };
+};
+
+// Returns the saved gallery, newest first.
+export async function loadHistory(): Promise<HistoryItem[]> {
+  requestPersistentStorage();
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, 'readonly');
+  const records = await requestToPromise<StoredHistoryItem[]>(
+    transaction.objectStore(HISTORY_STORE).index('createdAt').getAll()
+  );
+  const items = await Promise.all(records.map(fromStored));
+  return items.reverse();
+}
+
+export async function saveHistoryItem(item: HistoryItem): Promise<void> {
+  // Blob conversion is async, so it must finish before the transaction opens or it would auto-commit.
+  const record = await toStored(item);
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, 'readwrite');
+  transaction.objectStore(HISTORY_STORE).put(record);
+  await transactionDone(transaction);
+}
@@ -0,0 +1,80 @@
+import { IrisDetectionResult } from '../types';
+import { detectIrisInPixels } from '../lib/irisDetector';
+import type { IrisDetectorRequest } from '../lib/irisDetector.worker';
+
+// Largest side of the buffer handed to the detector. Enough to find a pupil in a close-up,
+// small enough to analyze several frames a second on a phone.
+const ANALYSIS_SIZE = 320;
+
+type DetectionSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pending = new Map<number, (result: IrisDetectionResult) => void>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerUnavailable) return worker;
+  try {
+    worker = new Worker(new URL('../lib/irisDetector.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result: IrisDetectionResult }>) => {
+      const resolve = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      resolve?.(event.data.result);
+    };
+    worker.onerror = (event) => {
+      console.warn('Iris detector worker failed, falling back to the main thread.', event.message);
+      worker?.terminate();
+      worker = null;
+      workerUnavailable = true;
+      pending.forEach(resolve => resolve({ success: false, error: 'Detection failed.' }));
+      pending.clear();
+    };
+  } catch (e) {
+    console.warn('Web Workers are unavailable; iris detection will run on the main thread.');
+    workerUnavailable = true;
+  }
+  return worker;
+};
+
+const sourceSize = (source: DetectionSource) => {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+};
+
+const readPixels = (source: DetectionSource): ImageData | null => {
+  const { width, height } = sourceSize(source);
+  if (!width || !height) return null;
+
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Finds the iris in a video frame or image without any network call.
+// Coordinates are normalized exactly like the cloud detectIris result.
+export async function detectIrisOnDevice(source: DetectionSource): Promise<IrisDetectionResult> {
+  const imageData = readPixels(source);
+  if (!imageData) {
+    return { success: false, error: 'Image is not ready for analysis.' };
+  }
+
+  const detector = getWorker();
+  if (!detector) {
+    return detectIrisInPixels(imageData.data, imageData.width, imageData.height);
+  }
+
+  const id = nextRequestId++;
+  return new Promise(resolve => {
+    pending.set(id, resolve);
+    const request: IrisDetectorRequest = { id, width: imageData.width, height: imageData.height, pixels: imageData.data };
+    detector.postMessage(request, [imageData.data.buffer]);
+  });
+}
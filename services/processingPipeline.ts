@@ -0,0 +1,206 @@
+import { CropData } from "../types";
+import { StructureCheck, checkStructureSafely } from "../lib/structureCheck";
+import { getPreference } from "../lib/preferences";
+import { upscaleWithDetail } from "../lib/detailTransfer";
+import { AiRequestError } from "./aiRequest";
+import { enhanceEyeImage } from "./geminiService";
+
+// The photo-to-enhanced-image pipeline behind ProcessingScreen. It reports typed stage events with
+// an estimated overall progress, so the screen can show where it is and how long it has been.
+
+export type ProcessingStage = 'cropping' | 'uploading' | 'enhancing' | 'normalizing' | 'composing';
+
+export interface ProcessingProgress {
+    stage: ProcessingStage;
+    // Estimated overall progress, 0 to 1. Never goes backwards.
+    progress: number;
+    elapsedMs: number;
+}
+
+export interface ProcessingResult {
+    composedBeforeDataUrl: string;
+    enhancedImageDataUrl: string;
+    // Compares the enhanced iris with the crop it came from; null if it couldn't run.
+    structureCheck: StructureCheck | null;
+}
+
+export interface ProcessingOptions {
+    signal?: AbortSignal;
+    // Ignore a cached enhancement, e.g. when retrying one that was flagged.
+    refresh?: boolean;
+    onProgress?: (progress: ProcessingProgress) => void;
+}
+
+// Share of the overall progress bar each stage starts at. Enhancing dominates the wait.
+const STAGE_START: Record<ProcessingStage, number> = {
+    cropping: 0,
+    uploading: 0.05,
+    enhancing: 0.15,
+    normalizing: 0.85,
+    composing: 0.95,
+};
+
+// Rough estimates for the parts we can't measure: sending the crop, and the model's turnaround.
+const ASSUMED_UPLOAD_BYTES_PER_MS = 250; // ~2 Mbit/s
+const EXPECTED_ENHANCE_MS = 20_000;
+const PROGRESS_INTERVAL_MS = 250;
+
+// The enhancement model works at about 1024px; larger inputs cost more without adding detail.
+const MAX_AI_INPUT_SIZE = 1024;
+
+// This function creates a tight, square crop of the iris at `size` pixels.
+// It's used as input for the enhancement AI, and at the working resolution as the source of fine detail.
+const cropImage = (originalImageSrc: string, irisData: CropData, size: number): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            
+            const sourceX = (irisData.centerX * img.naturalWidth) - (irisData.radius * img.naturalWidth);
+            const sourceY = (irisData.centerY * img.naturalHeight) - (irisData.radius * img.naturalWidth);
+            const sourceSize = (irisData.radius * img.naturalWidth) * 2;
+
+            canvas.width = size;
+            canvas.height = size;
+            const ctx = canvas.getContext('2d');
+            
+            if (ctx) {
+                ctx.imageSmoothingQuality = 'high';
+                ctx.drawImage(img, sourceX, sourceY, sourceSize, sourceSize, 0, 0, size, size);
+                const dataUrl = canvas.toDataURL('image/jpeg', 0.95);
+                resolve(dataUrl);
+            } else {
+                reject(new Error('Canvas 2D context not available'));
+            }
+        };
+        img.onerror = () => reject(new Error('Could not load image for cropping'));
+        img.src = originalImageSrc;
+    });
+};
+
+
+// This function creates a "before" image for the comparison slider.
+// It centers the un-enhanced iris on a black background to match the composition of the enhanced "after" image.
+// It is drawn straight from the original photo at `size`, so it keeps the camera's native detail.
+const createComposedBeforeImage = (originalImageSrc: string, irisData: CropData, size: number): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = size;
+            canvas.height = size;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Canvas context not available'));
+            
+            // Fill background with black
+            ctx.fillStyle = 'black';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+            // Scale the iris to fill about 90% of the canvas, matching the enhanced image's composition.
+            const scale = 0.9;
+            const destDiameter = canvas.width * scale;
+            const destRadius = destDiameter / 2;
+
+            // Define the source region from the original image
+            const sourceRadius = irisData.radius * img.naturalWidth;
+            const sourceDiameter = sourceRadius * 2;
+            const sourceX = (irisData.centerX * img.naturalWidth) - sourceRadius;
+            const sourceY = (irisData.centerY * img.naturalHeight) - sourceRadius;
+
+            // Create a circular clipping path in the center of the destination canvas
+            ctx.save();
+            ctx.imageSmoothingQuality = 'high';
+            ctx.beginPath();
+            ctx.arc(canvas.width / 2, canvas.height / 2, destRadius, 0, Math.PI * 2, true);
+            ctx.clip();
+
+            // Draw the source iris region into the clipped circle
+            ctx.drawImage(
+                img, 
+                sourceX, 
+                sourceY, 
+                sourceDiameter, 
+                sourceDiameter, 
+                (canvas.width - destDiameter) / 2, 
+                (canvas.height - destDiameter) / 2, 
+                destDiameter, 
+                destDiameter
+            );
+            
+            ctx.restore();
+
+            resolve(canvas.toDataURL('image/jpeg', 0.95));
+        };
+        img.onerror = () => reject(new Error('Could not load image for composing'));
+        img.src = originalImageSrc;
+    });
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new AiRequestError('cancelled', 'The request was cancelled.');
+};
+
+export async function runProcessingPipeline(originalImage: string, cropData: CropData, { signal, refresh = false, onProgress }: ProcessingOptions = {}): Promise<ProcessingResult> {
+    const startedAt = Date.now();
+    let lastProgress = 0;
+    const report = (stage: ProcessingStage, progress = STAGE_START[stage]) => {
+        lastProgress = Math.max(lastProgress, progress);
+        onProgress?.({ stage, progress: lastProgress, elapsedMs: Date.now() - startedAt });
+    };
+
+    // Add a compositional safety margin to prevent clipping the edge of the iris.
+    const safeIrisData = {
+        ...cropData,
+        radius: cropData.radius * 0.95, // Use 95% of the detected radius.
+    };
+    const workingResolution = getPreference('workingResolution');
+
+    // Step 1: Create a tight crop for the AI model using the safe detected data. At working
+    // resolutions above what the model takes, a full-size crop is kept for its detail.
+    report('cropping');
+    const aiInputSize = Math.min(workingResolution, MAX_AI_INPUT_SIZE);
+    const tightCropDataUrl = await cropImage(originalImage, safeIrisData, aiInputSize);
+    const detailCropDataUrl = workingResolution > aiInputSize
+        ? await cropImage(originalImage, safeIrisData, workingResolution)
+        : tightCropDataUrl;
+    throwIfAborted(signal);
+
+    // Step 2: Enhance the tight crop with the AI. Upload and generation are one request, so the
+    // switch from uploading to enhancing, and the progress within each, are estimates.
+    const tightCropBase64Data = tightCropDataUrl.split(',')[1];
+    const uploadMs = Math.max(500, (tightCropBase64Data.length * 0.75) / ASSUMED_UPLOAD_BYTES_PER_MS);
+    report('uploading');
+    const requestStartedAt = Date.now();
+    const timer = setInterval(() => {
+        const requestElapsed = Date.now() - requestStartedAt;
+        if (requestElapsed < uploadMs) {
+            report('uploading', STAGE_START.uploading + (STAGE_START.enhancing - STAGE_START.uploading) * (requestElapsed / uploadMs));
+        } else {
+            // Approaches the end of the stage without reaching it, however long the model takes.
+            const share = 1 - Math.exp(-(requestElapsed - uploadMs) / EXPECTED_ENHANCE_MS);
+            report('enhancing', STAGE_START.enhancing + (STAGE_START.normalizing - STAGE_START.enhancing) * share);
+        }
+    }, PROGRESS_INTERVAL_MS);
+    let enhancedBase64: string;
+    try {
+        enhancedBase64 = await enhanceEyeImage(tightCropBase64Data, { signal, refresh });
+    } finally {
+        clearInterval(timer);
+    }
+    const aiOutputDataUrl = `data:image/png;base64,${enhancedBase64}`;
+
+    // Step 3: Make sure the model didn't invent or erase iris structure, then bring the result to the
+    // working resolution. Detail from the photo is only added back when the result still lines up with it.
+    report('normalizing');
+    const structureCheck = await checkStructureSafely(tightCropDataUrl, aiOutputDataUrl, 'enhancement');
+    const enhancedImageDataUrl = await upscaleWithDetail(aiOutputDataUrl, detailCropDataUrl, workingResolution, !structureCheck?.drifted);
+    throwIfAborted(signal);
+
+    // Step 4: Create a composed "before" image using the safe data for a smooth comparison slider
+    report('composing');
+    const composedBeforeDataUrl = await createComposedBeforeImage(originalImage, safeIrisData, workingResolution);
+    throwIfAborted(signal);
+
+    report('composing', 1);
+    return { composedBeforeDataUrl, enhancedImageDataUrl, structureCheck };
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { CropData, EyeSide, HistoryItem } from '../types';
+import type { translations } from '../lib/translations';
+import { JOBS_STORE, openDatabase, requestPersistentStorage, requestToPromise, transactionDone } from '../lib/db';
+import { blobToDataUrl, dataUrlToBlob } from '../lib/dataUrl';
+import { StorageError } from '../lib/errors';
+import { aiErrorMessageKey } from './aiRequest';
+import { ProcessingResult, runProcessingPipeline } from './processingPipeline';
+import type { StructureCheck } from '../lib/structureCheck';
+import { saveHistoryItem } from './historyStorage';
+
+// Background enhancement queue. Cropped captures are queued instead of blocking on ProcessingScreen,
+// run a few at a time, and land in the gallery when done. Jobs are persisted in IndexedDB, so a
+// reload picks up where it left off; a job that was running at the time simply starts over.
+
+export type JobStatus = 'queued' | 'running' | 'failed';
+
+export interface ProcessingJob {
+  id: string;
+  createdAt: number;
+  cropData: CropData;
+  status: JobStatus;
+  // Estimated progress of a running job, 0 to 1. Not persisted.
+  progress: number;
+  errorKey?: keyof typeof translations.en;
+  // Carried over to the gallery item, so both eyes of a session stay together.
+  eye?: EyeSide;
+  pairId?: string;
+}
+
+interface StoredJob extends Omit<ProcessingJob, 'progress'> {
+  original: Blob;
+}
+
+// Enhancements are mostly waiting on the network, but each one holds full-size images in memory.
+const MAX_CONCURRENT_JOBS = 2;
+
+let jobs: ProcessingJob[] = [];
+// Original photos of the jobs in `jobs`, by id. Kept apart so the job list stays cheap to copy.
+const originals = new Map<string, string>();
+const listeners = new Set<(jobs: ProcessingJob[]) => void>();
+const finishedListeners = new Set<(item: HistoryItem, structureCheck: StructureCheck | null) => void>();
+let restorePromise: Promise<void> | null = null;
+
+const emit = () => {
+  const snapshot = [...jobs];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const updateJob = (id: string, changes: Partial<ProcessingJob>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+  emit();
+};
+
+const saveJob = async (job: ProcessingJob) => {
+  const original = originals.get(job.id);
+  if (!original) return;
+  const { progress: _progress, ...rest } = job;
+  const record: StoredJob = { ...rest, original: await dataUrlToBlob(original) };
+  const db = await openDatabase();
+  const transaction = db.transaction(JOBS_STORE, 'readwrite');
+  transaction.objectStore(JOBS_STORE).put(record);
+  await transactionDone(transaction);
+};
+
+// Later updates to a job are best-effort: the job is already stored and still runs this session.
+const persistJob = async (job: ProcessingJob) => {
+  try {
+    await saveJob(job);
+  } catch (error) {
+    console.warn('Could not save processing job:', error);
+  }
+};
+
+const deleteStoredJob = async (id: string) => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    transaction.objectStore(JOBS_STORE).delete(id);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn('Could not delete processing job:', error);
+  }
+};
+
+const failJob = async (id: string, errorKey: ProcessingJob['errorKey']) => {
+  updateJob(id, { status: 'failed', errorKey });
+  const failed = jobs.find(j => j.id === id);
+  if (failed) await persistJob(failed);
+};
+
+const runJob = async (job: ProcessingJob) => {
+  const original = originals.get(job.id);
+  if (!original) return;
+  updateJob(job.id, { status: 'running', progress: 0, errorKey: undefined });
+
+  try {
+    let result: ProcessingResult;
+    try {
+      result = await runProcessingPipeline(original, job.cropData, {
+        onProgress: ({ progress }) => updateJob(job.id, { progress }),
+      });
+    } catch (error) {
+      console.error(`Processing job ${job.id} failed:`, error);
+      await failJob(job.id, aiErrorMessageKey(error));
+      return;
+    }
+    const item: HistoryItem = {
+      // Two jobs can finish in the same millisecond, so the id comes from the (unique) job id.
+      id: job.id,
+      thumbnail: result.enhancedImageDataUrl,
+      original: result.composedBeforeDataUrl,
+      enhanced: result.enhancedImageDataUrl,
+      edits: [],
+      editIndex: 0,
+      eye: job.eye,
+      pairId: job.pairId,
+      ...(result.structureCheck?.drifted && { structureDrifted: true }),
+    };
+    try {
+      await saveHistoryItem(item);
+    } catch (error) {
+      // The enhancement itself worked; retrying replays it from the result cache.
+      const storageError = new StorageError('jobSaveFailed', error);
+      console.error(`Could not save the result of processing job ${job.id}:`, error);
+      await failJob(job.id, storageError.messageKey);
+      return;
+    }
+    jobs = jobs.filter(j => j.id !== job.id);
+    originals.delete(job.id);
+    await deleteStoredJob(job.id);
+    emit();
+    finishedListeners.forEach(listener => listener(item, result.structureCheck));
+  } finally {
+    pump();
+  }
+};
+
+// Starts queued jobs up to the concurrency limit. runJob marks its job running before it first
+// awaits, so calling this again right away never starts a job twice.
+const pump = () => {
+  const running = jobs.filter(job => job.status === 'running').length;
+  jobs
+    .filter(job => job.status === 'queued')
+    .slice(0, Math.max(0, MAX_CONCURRENT_JOBS - running))
+    .forEach(job => runJob(job));
+};
+
+const restoreQueue = (): Promise<void> => {
+  if (restorePromise) return restorePromise;
+  restorePromise = (async () => {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(JOBS_STORE, 'readonly');
+      const records = await requestToPromise<StoredJob[]>(transaction.objectStore(JOBS_STORE).index('createdAt').getAll());
+      for (const { original, ...record } of records) {
+        if (jobs.some(job => job.id === record.id)) continue;
+        originals.set(record.id, await blobToDataUrl(original));
+        jobs.push({ ...record, status: record.status === 'running' ? 'queued' : record.status, progress: 0 });
+      }
+      jobs.sort((a, b) => a.createdAt - b.createdAt);
+      emit();
+      pump();
+    } catch (error) {
+      console.warn('Could not restore processing jobs:', error);
+    }
+  })();
+  return restorePromise;
+};
+
+// Rejects with a StorageError, and leaves nothing queued, when the job can't be stored: a queued
+// photo has to survive the app being closed before its result lands in the gallery.
+export async function enqueueJob(originalImage: string, cropData: CropData, pairing: Pick<ProcessingJob, 'eye' | 'pairId'> = {}): Promise<void> {
+  requestPersistentStorage();
+  const createdAt = Date.now();
+  const job: ProcessingJob = { id: `job-${createdAt}-${Math.random().toString(36).slice(2, 8)}`, createdAt, cropData, status: 'queued', progress: 0, ...pairing };
+  originals.set(job.id, originalImage);
+  jobs = [...jobs, job];
+  emit();
+  try {
+    await saveJob(job);
+  } catch (error) {
+    jobs = jobs.filter(j => j.id !== job.id);
+    originals.delete(job.id);
+    emit();
+    throw new StorageError('queueSaveFailed', error);
+  }
+  pump();
+}
+
+export function retryJob(id: string): void {
+  updateJob(id, { status: 'queued', errorKey: undefined });
+  // Stored as queued too, so closing the app before the retry finishes doesn't bring it back as failed.
+  // The job starts once that's written, so the write can't land after the finished job was deleted.
+  const job = jobs.find(j => j.id === id);
+  if (job) {
+    persistJob(job).then(pump);
+  } else {
+    pump();
+  }
+}
+
+export function removeJob(id: string): void {
+  jobs = jobs.filter(job => job.id !== id || job.status === 'running');
+  if (!jobs.some(job => job.id === id)) {
+    originals.delete(id);
+    deleteStoredJob(id);
+  }
+  emit();
+}
+
+// Current jobs, restoring persisted ones on first use. `onFinished` is called with each new gallery
+// item and the structure check of its enhancement.
+export const useProcessingQueue = (onFinished?: (item: HistoryItem, structureCheck: StructureCheck | null) => void) => {
+  const [current, setCurrent] = useState<ProcessingJob[]>(() => [...jobs]);
+
+  useEffect(() => {
+    listeners.add(setCurrent);
+    restoreQueue();
+    return () => {
+      listeners.delete(setCurrent);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!onFinished) return;
+    finishedListeners.add(onFinished);
+    return () => {
+      finishedListeners.delete(onFinished);
+    };
+  }, [onFinished]);
+
+  return current;
+};
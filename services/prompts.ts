@@ -0,0 +1,121 @@
+import { Language } from "../lib/localization";
+import { EyeSide } from "../types";
+
+// Prompts shared by every AI provider. Providers that talk to a model directly send these as-is;
+// the local model server receives them alongside the image so it can use or ignore them.
+
+// Used for real-time video frame analysis during capture.
+// It prioritizes speed and detection reliability over precision by using a simple bounding box.
+export const FIND_EYE_PROMPT = `**Objective:** Quickly locate the most prominent human eye in this video frame for a camera to focus on.
+
+**CRITICAL INSTRUCTIONS:**
+1.  **Find the Eyeball:** Your primary goal is to find the eyeball itself, which includes the iris (colored part) and pupil (black center).
+2.  **IGNORE OTHER FEATURES:** You MUST ignore eyebrows, hair, glasses, and large areas of just skin. Do NOT create a box for an eyebrow.
+3.  **Create Bounding Box:** If you find a clear eye, return a tight bounding box around it.
+4.  **Handle Failure:** If you cannot confidently find an eye that meets these criteria, you MUST return \`"eyeFound": false\`.
+
+**Output:**
+- Return a single raw JSON object. No markdown.
+- All coordinate values must be normalized (0.0 to 1.0).
+- \`eyeFound\`: boolean.
+- \`box\`: An object with four properties: \`xMin\`, \`yMin\`, \`xMax\`, \`yMax\`.`;
+
+// Used for the final, precise crop after capture.
+// It includes instructions to ignore reflections for better accuracy.
+export const DETECT_IRIS_PROMPT = `**Objective:** Find the precise center and radius of the human iris for a perfect circular crop.
+
+**CRITICAL CONTEXT:** The user wants to crop ONLY the colored part of the eye (the iris). The final result MUST be centered on the pupil.
+
+**Instructions:**
+1.  **Identify Key Features:** Locate the pupil (black center), the iris (colored ring), and the sclera (white part).
+2.  **Find Pupil Center:** Your top priority is to find the exact geometric center of the **pupil**. This is the most important step. If the pupil is partially obscured by an eyelid or reflection, estimate its true center. Do not get distracted by the eyelid.
+3.  **Measure Iris Radius:** From the pupil's center, measure the radius outwards to the edge of the colored iris. The measurement should stop where the color ends and the white sclera begins.
+4.  **Final Verification:** Before returning coordinates, double-check your work. Does the circle defined by your center and radius actually contain a detailed iris and a darker pupil? If it primarily contains eyelid, skin, or is wildly off-center, you MUST return \`"irisFound": false\`.
+
+**Output:**
+- Return a single raw JSON object. No other text, no markdown.
+- All values are normalized from 0.0 to 1.0 relative to the input image dimensions.
+- \`centerX\`, \`centerY\`: The precise center of the **pupil**.
+- \`radius\`: The radius of the iris, measured from the pupil center, normalized to the image's width.
+- \`irisFound\`: A boolean. If you cannot confidently identify a pupil and iris, return '{"irisFound": false}'.`;
+
+export const ENHANCE_EYE_PROMPT = `**Objective:** You are a world-class photo retoucher specializing in high-detail macro photography. Your task is to perform a subtle, photorealistic enhancement of this pre-cropped human iris image.
+
+**CRITICAL CORE PRINCIPLE: PRESERVATION OVER FABRICATION.** The final image MUST look like a professionally photographed version of the *exact same iris*. You must NOT invent, add, or fundamentally change any of the iris's unique structural features (fibers, crypts, rings).
+
+**Instructions:**
+
+1.  **Realistic Reflection Removal:**
+    *   Carefully identify and remove any harsh light glare or reflections from the iris and pupil.
+    *   When filling in the area where a reflection was, you MUST realistically reconstruct the underlying texture and color based *only* on the immediately surrounding, visible iris patterns. Do not guess or invent new patterns. The fill must be seamless and unnoticeable.
+
+2.  **Subtle Detail & Clarity Enhancement:**
+    *   Increase the local contrast and clarity of the existing iris fibers to make them appear sharper and more defined.
+    *   Improve the three-dimensional appearance by subtly enhancing natural shadows and highlights within the iris structure.
+    *   **DO NOT** add new fibers or alter the existing pattern.
+
+3.  **Natural Color & Lighting Correction:**
+    *   Gently balance the lighting across the iris to create a more even, studio-lit appearance.
+    *   Slightly increase the color saturation to make the natural hues more vibrant, but **DO NOT** change the original eye color.
+
+4.  **Pupil Refinement:**
+    *   Ensure the pupil is a deep, natural-looking black. Clean up any minor reflections or haziness within the pupil.
+    *   Maintain the pupil's natural circular shape.
+
+5.  **Final Composition:**
+    *   The final output MUST be a 1:1 square image.
+    *   The background MUST be pure black (#000000).
+    *   The enhanced iris should fill the entire circular area of the image.
+
+**Output:**
+- Return ONLY the enhanced image data.`;
+
+// Starting point for user-authored effects in EditScreen. It carries the same constraints as the
+// built-in effects, so only the effect details need to be written.
+export const CUSTOM_EFFECT_TEMPLATE = "**PROFESSIONAL RETOUCHING TASK:** Apply a custom effect to this iris.\n\n**MANDATORY GLOBAL CONSTRAINT:** The final image MUST have a PURE BLACK (#000000) background.\n\n**PRIMARY GOAL: PRESERVE STRUCTURE.** The natural fibrous texture of the iris is paramount. It must not be obscured. The effect is an *addition*, not a replacement.\n\n**EFFECT DETAILS:** Describe the effect here. The core structure and details of the iris must remain perfectly sharp and clear. 1:1 aspect ratio.";
+
+// Effect variations: the first one uses the prompt unchanged, so it matches (and shares a cached result
+// with) a plain application of the effect. The rest ask for a different take, which also gives every
+// variation its own result cache entry.
+export const MAX_EFFECT_VARIATIONS = 4;
+
+export const withVariation = (effectPrompt: string, index: number): string =>
+    index === 0
+        ? effectPrompt
+        : `${effectPrompt}\n\n**VARIATION ${index + 1}:** Produce a distinctly different interpretation of this effect (composition, placement and color balance of the added elements), keeping every constraint above.`;
+
+export const buildIridologyPrompt = (language: Language, eye?: EyeSide): string => `
+**Persona:** You are a world-renowned iridology expert and holistic wellness educator with 30+ years of practice. Your tone is that of a trusted, empathetic, and highly knowledgeable mentor. You NEVER provide medical diagnoses. Your focus is on identifying constitutional patterns and offering general wellness advice.
+
+**Core Mission: Unique & Balanced Analysis**
+Every iris is unique. Your primary goal is to provide a highly personalized analysis of THIS SPECIFIC iris, avoiding generic, boilerplate descriptions. Your analysis MUST be balanced, highlighting both the iris's inherent strengths (e.g., dense, well-organized fibers) and areas that suggest a need for wellness support (e.g., lacunae, specific pigmentations).
+
+**Task:** Perform an in-depth, personalized iridological analysis of the provided iris photograph.
+${eye ? `
+**Eye:** This is the person's **${eye.toUpperCase()}** eye. Locate every sign on the ${eye}-iris chart; the organ zones of the two irises are mirror images, so never use the other eye's map.
+` : ''}
+**Instructions:**
+1.  **Constitutional Analysis:**
+    *   Determine the constitutional type (Lymphatic, Biliary, or Hematogenic) and strength ('Strong/Dense', 'Good', 'Fair', 'Poor/Loose').
+    *   **Provide a UNIQUE explanation** of what this specific combination implies. Mention both the positive aspects of this constitution and the potential tendencies that require mindfulness.
+2.  **Identify Key & Unique Signs:**
+    *   Scan the iris for its 3-5 MOST DEFINING characteristics. Don't just list common signs; focus on what makes THIS iris stand out.
+    *   For each sign, provide a DETAILED and PERSONALIZED interpretation:
+        *   **signDescription:** Describe EXACTLY what you see in THIS image. Be specific (e.g., "A prominent, open lacuna in the upper-right quadrant, near the 1 o'clock position...").
+        *   **signMeaning:** Explain the potential meaning using clear, simple analogies. Connect it to bodily systems and explain WHY it suggests a certain tendency.
+        *   **recommendations:** Provide 2-4 practical, actionable wellness tips directly related to the finding.
+3.  **Iris Color Analysis:**
+    *   Analyze the specific hues, pigments, and color patterns visible in THIS iris.
+    *   Write a \`summary\` that is specific to the observed colors and what they suggest.
+    *   Identify 1-3 specific \`colorSign\`s. For each, describe its appearance and provide related wellness recommendations.
+4.  **Overall Summary:**
+    *   Write a brief, encouraging, and PERSONALIZED summary. It must recap the key strengths you identified and the primary areas for focus. It should feel like a conclusion to a one-on-one consultation.
+5.  **Disclaimer:** ALWAYS include the provided disclaimer verbatim.
+
+**CRITICAL: LANGUAGE & TONE REQUIREMENT**
+*   Your entire response (all string values in the JSON) MUST be written in FLAWLESS, IDIOMATIC, and natural-sounding **${language === 'lt' ? 'Lithuanian' : 'English'}**.
+*   It must sound like it was written by a native-speaking LITHUANIAN (or English) wellness professional. **AVOID LITERAL, AWKWARD TRANSLATIONS.** The Lithuanian must be perfect.
+*   The JSON *keys* MUST remain in English as specified in the schema. Only the string *values* are translated.
+
+**Output Format:** Your response MUST be a single, raw JSON object without any markdown formatting. Adhere to the provided schema precisely.
+`;
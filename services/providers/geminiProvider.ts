@@ -0,0 +1,366 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Type } from "@google/genai";
+import { EyeSide, IridologyAnalysis, IrisDetectionResult } from "../../types";
+import { Language } from "../../lib/localization";
+import { AiModelMap, AiProvider } from "../aiProvider";
+import { AiCallOptions, AiRequestError } from "../aiRequest";
+import { DETECT_IRIS_PROMPT, ENHANCE_EYE_PROMPT, FIND_EYE_PROMPT, buildIridologyPrompt } from "../prompts";
+
+export const GEMINI_DEFAULT_MODELS: AiModelMap = {
+    findEyeInFrame: 'gemini-2.5-flash', // Flash for speed during live capture
+    detectIris: 'gemini-2.5-pro',
+    enhanceEyeImage: 'gemini-2.5-flash-image',
+    applyEffectToEyeImage: 'gemini-2.5-flash-image',
+    analyzeIrisForIridology: 'gemini-2.5-flash',
+};
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.BLOCKLIST,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+// A blocked request still comes back as a successful response, just without content.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new AiRequestError('safety', `The request was blocked by the AI safety filters (${blockReason}).`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (BLOCKING_FINISH_REASONS.includes(finishReason)) {
+        throw new AiRequestError('safety', `The AI safety filters blocked the result (${finishReason}).`);
+    }
+};
+
+interface GeminiProviderConfig {
+    apiKey: string | undefined;
+    models?: Partial<AiModelMap>;
+}
+
+export function createGeminiProvider({ apiKey, models: modelOverrides }: GeminiProviderConfig): AiProvider {
+    if (!apiKey) {
+        console.warn("API_KEY environment variable not set. AI features will not work.");
+    }
+
+    const ai = new GoogleGenAI({ apiKey: apiKey! });
+    const models: AiModelMap = { ...GEMINI_DEFAULT_MODELS, ...modelOverrides };
+
+    async function findEyeInFrame(base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult> {
+        try {
+            const response = await ai.models.generateContent({
+                model: models.findEyeInFrame,
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: base64ImageData,
+                                mimeType: 'image/jpeg',
+                            },
+                        },
+                        {
+                            text: FIND_EYE_PROMPT,
+                        },
+                    ],
+                },
+                config: {
+                    abortSignal: options?.signal,
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            eyeFound: { type: Type.BOOLEAN },
+                            box: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    xMin: { type: Type.NUMBER },
+                                    yMin: { type: Type.NUMBER },
+                                    xMax: { type: Type.NUMBER },
+                                    yMax: { type: Type.NUMBER },
+                                },
+                            }
+                        },
+                        required: ["eyeFound"],
+                    },
+                },
+            });
+
+            assertNotBlocked(response);
+        const jsonString = response.text;
+            const parsed: { 
+                eyeFound: boolean; 
+                box?: { xMin: number, yMin: number, xMax: number, yMax: number };
+            } = JSON.parse(jsonString);
+
+            if (parsed.eyeFound && parsed.box) {
+                 const box = parsed.box;
+                 return {
+                     success: true,
+                     centerX: (box.xMin + box.xMax) / 2,
+                     centerY: (box.yMin + box.yMax) / 2,
+                     radius: (box.xMax - box.xMin) / 2,
+                     box: box,
+                 };
+            } else {
+                 return { success: false, error: "No eye found in frame." };
+            }
+
+        } catch (error) {
+            console.error("Error finding eye in frame with Gemini API:", error);
+            throw error;
+        }
+    }
+
+
+    async function detectIris(base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult> {
+        try {
+            const response = await ai.models.generateContent({
+                model: models.detectIris,
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: base64ImageData,
+                                mimeType: 'image/jpeg',
+                            },
+                        },
+                        {
+                            text: DETECT_IRIS_PROMPT,
+                        },
+                    ],
+                },
+                config: {
+                    abortSignal: options?.signal,
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            irisFound: { type: Type.BOOLEAN, description: "Whether a clear human iris was detected in the image." },
+                            centerX: { type: Type.NUMBER, description: "Normalized horizontal center of the PUPIL (0.0 to 1.0)." },
+                            centerY: { type: Type.NUMBER, description: "Normalized vertical center of the PUPIL (0.0 to 1.0)." },
+                            radius: { type: Type.NUMBER, description: "Normalized radius of the iris, relative to image width." },
+                        },
+                        required: ["irisFound"],
+                    },
+                    thinkingConfig: { thinkingBudget: 32768 }
+                },
+            });
+
+            assertNotBlocked(response);
+        const jsonString = response.text;
+            const parsed: { irisFound: boolean; centerX?: number; centerY?: number; radius?: number; } = JSON.parse(jsonString);
+
+            if (parsed.irisFound && typeof parsed.centerX === 'number' && typeof parsed.centerY === 'number' && typeof parsed.radius === 'number') {
+                 return {
+                     success: true,
+                     centerX: parsed.centerX,
+                     centerY: parsed.centerY,
+                     radius: parsed.radius,
+                 };
+            } else {
+                 return {
+                    success: false,
+                    error: "Could not detect an eye in the photo. Please try again with a clearer, more direct shot."
+                 };
+            }
+
+        } catch (error) {
+            console.error("Error detecting iris with Gemini API:", error);
+            throw error;
+        }
+    }
+
+
+    async function enhanceEyeImage(base64ImageData: string, options?: AiCallOptions): Promise<string> {
+        try {
+            const response = await ai.models.generateContent({
+                model: models.enhanceEyeImage,
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: base64ImageData,
+                                mimeType: 'image/jpeg',
+                            },
+                        },
+                        {
+                            text: ENHANCE_EYE_PROMPT,
+                        },
+                    ],
+                },
+                config: {
+                    abortSignal: options?.signal,
+                    responseModalities: [Modality.IMAGE],
+                },
+            });
+
+            assertNotBlocked(response);
+        const parts = response.candidates?.[0]?.content?.parts;
+            if (parts) {
+                for (const part of parts) {
+                    if (part.inlineData) {
+                        return part.inlineData.data;
+                    }
+                }
+            }
+
+            throw new AiRequestError('malformed', "No enhanced image data received from API.");
+        } catch (error) {
+            console.error("Error enhancing image with Gemini API:", error);
+            throw error;
+        }
+    }
+
+    async function applyEffectToEyeImage(base64ImageData: string, effectPrompt: string, options?: AiCallOptions): Promise<string> {
+        try {
+            const response = await ai.models.generateContent({
+                model: models.applyEffectToEyeImage,
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: base64ImageData,
+                                mimeType: 'image/jpeg',
+                            },
+                        },
+                        {
+                            text: effectPrompt,
+                        },
+                    ],
+                },
+                config: {
+                    abortSignal: options?.signal,
+                    responseModalities: [Modality.IMAGE],
+                },
+            });
+
+            assertNotBlocked(response);
+        const parts = response.candidates?.[0]?.content?.parts;
+            if (parts) {
+                for (const part of parts) {
+                    if (part.inlineData) {
+                        return part.inlineData.data;
+                    }
+                }
+            }
+
+            throw new AiRequestError('malformed', "No image data with effect received from API.");
+        } catch (error) {
+            console.error("Error applying effect with Gemini API:", error);
+            throw error;
+        }
+    }
+
+    async function analyzeIrisForIridology(base64ImageData: string, language: Language, eye?: EyeSide, options?: AiCallOptions): Promise<IridologyAnalysis> {
+        try {
+            const response = await ai.models.generateContent({
+                model: models.analyzeIrisForIridology,
+                contents: {
+                    parts: [
+                        {
+                            inlineData: {
+                                data: base64ImageData,
+                                mimeType: 'image/jpeg',
+                            },
+                        },
+                        {
+                            text: buildIridologyPrompt(language, eye),
+                        },
+                    ],
+                },
+                config: {
+                    abortSignal: options?.signal,
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            overallSummary: { type: Type.STRING, description: "A brief, holistic, and encouraging summary of the iris constitution." },
+                            constitutionalType: { type: Type.STRING, description: "The constitutional type (e.g., 'Lymphatic')." },
+                            constitutionalTypeExplanation: { type: Type.STRING, description: "A clear explanation of what this constitutional type generally implies."},
+                            constitutionalStrength: { type: Type.STRING, description: "The strength/density of the iris fibers (e.g., 'Good')." },
+                            keyFindings: {
+                                type: Type.ARRAY,
+                                description: "An array of 3-5 most prominent findings.",
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        signName: { type: Type.STRING, description: "The name of the iridological sign found." },
+                                        signDescription: { type: Type.STRING, description: "A clear visual description of the sign in the iris." },
+                                        signMeaning: { type: Type.STRING, description: "An interpretation of what this sign suggests and which body systems it may relate to, using analogies." },
+                                        recommendations: {
+                                            type: Type.ARRAY,
+                                            description: "A list of 2-4 general, safe wellness recommendations.",
+                                            items: { type: Type.STRING }
+                                        },
+                                    },
+                                    required: ["signName", "signDescription", "signMeaning", "recommendations"],
+                                }
+                            },
+                            colorAnalysis: {
+                                type: Type.OBJECT,
+                                description: "Analysis of iris color patterns and pigmentations.",
+                                properties: {
+                                    summary: { type: Type.STRING, description: "A summary of what the overall color distribution suggests." },
+                                    findings: {
+                                        type: Type.ARRAY,
+                                        description: "An array of 1-3 specific color findings.",
+                                        items: {
+                                            type: Type.OBJECT,
+                                            properties: {
+                                                // FIX: Changed shorthand property to a full object definition.
+                                                colorSign: { type: Type.STRING, description: "The name of the color sign/pigmentation observed." },
+                                                description: { type: Type.STRING, description: "A visual description of the color sign." },
+                                                recommendations: {
+                                                    type: Type.ARRAY,
+                                                    description: "General wellness recommendations related to this finding.",
+                                                    items: { type: Type.STRING }
+                                                },
+                                            },
+                                            required: ["colorSign", "description", "recommendations"],
+                                        }
+                                    }
+                                },
+                                required: ["summary", "findings"],
+                            },
+                            disclaimer: { type: Type.STRING, description: "The verbatim disclaimer text." }
+                        },
+                        required: [
+                            "overallSummary",
+                            "constitutionalType",
+                            "constitutionalTypeExplanation",
+                            "constitutionalStrength",
+                            "keyFindings",
+                            "colorAnalysis",
+                            "disclaimer",
+                        ],
+                    },
+                },
+            });
+
+            assertNotBlocked(response);
+        const jsonString = response.text.trim();
+            const analysisResult: IridologyAnalysis = JSON.parse(jsonString);
+
+            if (!analysisResult || !analysisResult.constitutionalType) {
+                throw new AiRequestError('malformed', "Invalid or incomplete analysis data received from API.");
+            }
+
+            return analysisResult;
+
+        } catch (error) {
+            console.error("Error analyzing iris with Gemini API:", error);
+            throw error;
+        }
+    }
+
+    return {
+        id: 'gemini',
+        models,
+        findEyeInFrame,
+        detectIris,
+        enhanceEyeImage,
+        applyEffectToEyeImage,
+        analyzeIrisForIridology,
+    };
+}
@@ -0,0 +1,134 @@
+import { EyeSide, IridologyAnalysis, IrisDetectionResult } from "../../types";
+import { Language } from "../../lib/localization";
+import { AiModelMap, AiOperation, AiProvider } from "../aiProvider";
+import { AiCallOptions, AiRequestError } from "../aiRequest";
+import { DETECT_IRIS_PROMPT, ENHANCE_EYE_PROMPT, FIND_EYE_PROMPT, buildIridologyPrompt } from "../prompts";
+
+// Talks to a self-hosted stand-in for the cloud models. Every operation is a JSON POST to
+// `${baseUrl}/v1/<operation>` with `{ model, image: { data, mimeType }, prompt, language? }`.
+// Detection endpoints answer with an IrisDetectionResult, image endpoints with `{ image: <base64> }`
+// and the iridology endpoint with an IridologyAnalysis.
+
+export const LOCAL_DEFAULT_MODELS: AiModelMap = {
+    findEyeInFrame: 'default',
+    detectIris: 'default',
+    enhanceEyeImage: 'default',
+    applyEffectToEyeImage: 'default',
+    analyzeIrisForIridology: 'default',
+};
+
+interface LocalServerProviderConfig {
+    baseUrl: string;
+    models?: Partial<AiModelMap>;
+}
+
+export function createLocalServerProvider({ baseUrl, models: modelOverrides }: LocalServerProviderConfig): AiProvider {
+    const models: AiModelMap = { ...LOCAL_DEFAULT_MODELS, ...modelOverrides };
+    const root = baseUrl.replace(/\/+$/, '');
+
+    async function post<T>(operation: AiOperation, base64ImageData: string, prompt: string, options?: AiCallOptions, extra: Record<string, unknown> = {}): Promise<T> {
+        const response = await fetch(`${root}/v1/${operation}`, {
+            method: 'POST',
+            signal: options?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: models[operation],
+                image: { data: base64ImageData, mimeType: 'image/jpeg' },
+                prompt,
+                ...extra,
+            }),
+        });
+        if (!response.ok) {
+            // Carry the status so the request wrapper can tell quota (429) from outages (5xx).
+            throw Object.assign(new Error(`Local model server returned ${response.status} for ${operation}.`), { status: response.status });
+        }
+        return response.json();
+    }
+
+    async function findEyeInFrame(base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult> {
+        try {
+            const result = await post<IrisDetectionResult>('findEyeInFrame', base64ImageData, FIND_EYE_PROMPT, options);
+            if (result.success && result.box) {
+                const box = result.box;
+                return {
+                    success: true,
+                    centerX: result.centerX ?? (box.xMin + box.xMax) / 2,
+                    centerY: result.centerY ?? (box.yMin + box.yMax) / 2,
+                    radius: result.radius ?? (box.xMax - box.xMin) / 2,
+                    box,
+                };
+            }
+            return { success: false, error: "No eye found in frame." };
+        } catch (error) {
+            console.error("Error finding eye in frame with local model server:", error);
+            throw error;
+        }
+    }
+
+    async function detectIris(base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult> {
+        try {
+            const result = await post<IrisDetectionResult>('detectIris', base64ImageData, DETECT_IRIS_PROMPT, options);
+            if (result.success && typeof result.centerX === 'number' && typeof result.centerY === 'number' && typeof result.radius === 'number') {
+                return { success: true, centerX: result.centerX, centerY: result.centerY, radius: result.radius };
+            }
+            return {
+                success: false,
+                error: result.error || "Could not detect an eye in the photo. Please try again with a clearer, more direct shot."
+            };
+        } catch (error) {
+            console.error("Error detecting iris with local model server:", error);
+            throw error;
+        }
+    }
+
+    async function generateImage(operation: AiOperation, base64ImageData: string, prompt: string, options?: AiCallOptions): Promise<string> {
+        const result = await post<{ image?: string }>(operation, base64ImageData, prompt, options);
+        if (!result.image) {
+            throw new AiRequestError('malformed', `No image data received from local model server for ${operation}.`);
+        }
+        return result.image;
+    }
+
+    async function enhanceEyeImage(base64ImageData: string, options?: AiCallOptions): Promise<string> {
+        try {
+            return await generateImage('enhanceEyeImage', base64ImageData, ENHANCE_EYE_PROMPT, options);
+        } catch (error) {
+            console.error("Error enhancing image with local model server:", error);
+            throw error;
+        }
+    }
+
+    async function applyEffectToEyeImage(base64ImageData: string, effectPrompt: string, options?: AiCallOptions): Promise<string> {
+        try {
+            return await generateImage('applyEffectToEyeImage', base64ImageData, effectPrompt, options);
+        } catch (error) {
+            console.error("Error applying effect with local model server:", error);
+            throw error;
+        }
+    }
+
+    async function analyzeIrisForIridology(base64ImageData: string, language: Language, eye?: EyeSide, options?: AiCallOptions): Promise<IridologyAnalysis> {
+        try {
+            const analysisResult = await post<IridologyAnalysis>(
+                'analyzeIrisForIridology', base64ImageData, buildIridologyPrompt(language, eye), options, { language, eye }
+            );
+            if (!analysisResult || !analysisResult.constitutionalType) {
+                throw new AiRequestError('malformed', "Invalid or incomplete analysis data received from local model server.");
+            }
+            return analysisResult;
+        } catch (error) {
+            console.error("Error analyzing iris with local model server:", error);
+            throw error;
+        }
+    }
+
+    return {
+        id: 'local',
+        models,
+        findEyeInFrame,
+        detectIris,
+        enhanceEyeImage,
+        applyEffectToEyeImage,
+        analyzeIrisForIridology,
+    };
+}
@@ -0,0 +1,57 @@
+import { IridologyAnalysis, IrisDetectionResult } from "../../types";
+
+// Canned responses for the mock provider. Coordinates assume the eye is roughly centered,
+// which is how people hold the camera anyway.
+
+export const MOCK_FRAME_DETECTION: IrisDetectionResult = {
+    success: true,
+    centerX: 0.5,
+    centerY: 0.5,
+    radius: 0.12,
+    box: { xMin: 0.38, yMin: 0.38, xMax: 0.62, yMax: 0.62 },
+};
+
+export const MOCK_IRIS_DETECTION: IrisDetectionResult = {
+    success: true,
+    centerX: 0.5,
+    centerY: 0.5,
+    radius: 0.15,
+};
+
+export const MOCK_IRIDOLOGY_ANALYSIS: IridologyAnalysis = {
+    overallSummary: "This is a mock reading. Your iris shows dense, well-organized fibers with a few areas that invite gentle attention to digestion and rest.",
+    constitutionalType: "Hematogenic",
+    constitutionalTypeExplanation: "A brown, pigment-rich iris. Hematogenic constitutions tend to have robust energy but benefit from supporting circulation and the liver.",
+    constitutionalStrength: "Good",
+    keyFindings: [
+        {
+            signName: "Contraction Furrows",
+            signDescription: "Two faint concentric rings in the outer third of the iris, most visible between 2 and 4 o'clock.",
+            signMeaning: "Like a spring that is often wound up, these rings are associated with a tendency to hold tension.",
+            recommendations: ["Take short breathing breaks during the day.", "Keep a consistent sleep schedule."],
+        },
+        {
+            signName: "Open Lacuna",
+            signDescription: "A small, open, leaf-shaped gap in the fibers near the 6 o'clock position.",
+            signMeaning: "Lacunae are read as areas of lower inherent resilience that benefit from extra support.",
+            recommendations: ["Favor whole, unprocessed foods.", "Stay well hydrated.", "Add gentle daily movement."],
+        },
+        {
+            signName: "Nerve Rings Absent",
+            signDescription: "The fiber field between the collarette and the iris edge is smooth and uninterrupted.",
+            signMeaning: "A calm fiber pattern in this zone is traditionally read as good structural resilience.",
+            recommendations: ["Maintain your current routines that support calm and focus."],
+        },
+    ],
+    colorAnalysis: {
+        summary: "A warm, even brown base with slightly lighter pigment around the pupil.",
+        findings: [
+            {
+                colorSign: "Central Heterochromia",
+                description: "A lighter amber ring directly around the pupil.",
+                recommendations: ["Eat regular, balanced meals.", "Include bitter greens to support digestion."],
+            },
+        ],
+    },
+    disclaimer: "This mock reading is for development only. Iridology is not a medical diagnostic tool.",
+};
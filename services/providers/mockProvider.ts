@@ -0,0 +1,151 @@
+import { EyeSide, IridologyAnalysis, IrisDetectionResult } from "../../types";
+import { Language } from "../../lib/localization";
+import { AiModelMap, AiProvider } from "../aiProvider";
+import { AiCallOptions, AiErrorCategory, AiRequestError } from "../aiRequest";
+import { MOCK_FRAME_DETECTION, MOCK_IRIDOLOGY_ANALYSIS, MOCK_IRIS_DETECTION } from "./mockFixtures";
+
+// An offline stand-in for the AI backend. It never touches the network and always gives the same
+// answer for the same input, so screens after CaptureScreen can be worked on without an API key.
+//   success   — fast, canned results (default)
+//   slow      — the same results, but with cloud-like latency
+//   fail      — every call fails like an unreachable service (retried, then a network error)
+//   timeout   — calls never answer, so the request timeouts kick in
+//   quota, safety, malformed — every call fails with that error category
+export type MockScenario = 'success' | 'slow' | 'fail' | 'timeout' | 'quota' | 'safety' | 'malformed';
+
+const FAILURES: Partial<Record<MockScenario, { category: AiErrorCategory; message: string }>> = {
+    fail: { category: 'network', message: 'Mock AI service is unavailable.' },
+    quota: { category: 'quota', message: 'Mock AI quota exhausted.' },
+    safety: { category: 'safety', message: 'Mock AI safety filters blocked the request.' },
+    malformed: { category: 'malformed', message: 'Mock AI returned an unreadable response.' },
+};
+
+const MOCK_MODELS: AiModelMap = {
+    findEyeInFrame: 'mock',
+    detectIris: 'mock',
+    enhanceEyeImage: 'mock',
+    applyEffectToEyeImage: 'mock',
+    analyzeIrisForIridology: 'mock',
+};
+
+const FAST = { detection: 150, image: 800, analysis: 1000 };
+const SLOW = { detection: 2500, image: 12000, analysis: 15000 };
+const NEVER = { detection: Infinity, image: Infinity, analysis: Infinity };
+
+const LATENCY_MS: Record<MockScenario, typeof FAST> = {
+    success: FAST,
+    slow: SLOW,
+    fail: FAST,
+    timeout: NEVER,
+    quota: FAST,
+    safety: FAST,
+    malformed: FAST,
+};
+
+// Like a real request, the wait ends early when the caller aborts.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AiRequestError('cancelled', 'The request was cancelled.'));
+    };
+    // The listener goes once the delay is over, so a long-lived signal doesn't collect one per call.
+    const timer = Number.isFinite(ms) ? setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms) : undefined;
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Small, stable string hash so each effect prompt gets its own (but repeatable) tint.
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+// Draws the input iris centered on a black square, with a filter and an optional colored glow,
+// so the UI shows a visible, believable change without any model involved.
+const synthesizeImage = (base64ImageData: string, filter: string, glowHue: number | null): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const size = 512;
+            const canvas = document.createElement('canvas');
+            canvas.width = size;
+            canvas.height = size;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Canvas 2D context not available'));
+
+            ctx.fillStyle = 'black';
+            ctx.fillRect(0, 0, size, size);
+
+            const radius = size * 0.45;
+            if (glowHue !== null) {
+                const glow = ctx.createRadialGradient(size / 2, size / 2, radius * 0.9, size / 2, size / 2, size / 2);
+                glow.addColorStop(0, `hsla(${glowHue}, 90%, 60%, 0.8)`);
+                glow.addColorStop(1, 'rgba(0, 0, 0, 0)');
+                ctx.fillStyle = glow;
+                ctx.fillRect(0, 0, size, size);
+            }
+
+            ctx.save();
+            ctx.beginPath();
+            ctx.arc(size / 2, size / 2, radius, 0, Math.PI * 2);
+            ctx.clip();
+            ctx.filter = filter;
+            ctx.drawImage(img, size / 2 - radius, size / 2 - radius, radius * 2, radius * 2);
+            ctx.restore();
+
+            resolve(canvas.toDataURL('image/png').split(',')[1]);
+        };
+        img.onerror = () => reject(new Error('Could not load image for mock processing'));
+        img.src = `data:image/jpeg;base64,${base64ImageData}`;
+    });
+};
+
+export function createMockProvider(scenario: MockScenario): AiProvider {
+    const latency = LATENCY_MS[scenario];
+    const failure = FAILURES[scenario];
+
+    const respond = async (ms: number, options?: AiCallOptions) => {
+        await delay(ms, options?.signal);
+        if (failure) throw new AiRequestError(failure.category, failure.message);
+    };
+
+    async function findEyeInFrame(_base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult> {
+        await respond(latency.detection, options);
+        return { ...MOCK_FRAME_DETECTION };
+    }
+
+    async function detectIris(_base64ImageData: string, options?: AiCallOptions): Promise<IrisDetectionResult> {
+        await respond(latency.detection, options);
+        return { ...MOCK_IRIS_DETECTION };
+    }
+
+    async function enhanceEyeImage(base64ImageData: string, options?: AiCallOptions): Promise<string> {
+        await respond(latency.image, options);
+        return synthesizeImage(base64ImageData, 'contrast(1.25) saturate(1.3) brightness(1.05)', null);
+    }
+
+    async function applyEffectToEyeImage(base64ImageData: string, effectPrompt: string, options?: AiCallOptions): Promise<string> {
+        await respond(latency.image, options);
+        return synthesizeImage(base64ImageData, 'contrast(1.1) saturate(1.5)', hashString(effectPrompt) % 360);
+    }
+
+    async function analyzeIrisForIridology(_base64ImageData: string, _language: Language, _eye?: EyeSide, options?: AiCallOptions): Promise<IridologyAnalysis> {
+        await respond(latency.analysis, options);
+        return structuredClone(MOCK_IRIDOLOGY_ANALYSIS);
+    }
+
+    return {
+        id: `mock:${scenario}`, // per scenario, so cached successes don't mask a failure scenario
+        models: MOCK_MODELS,
+        findEyeInFrame,
+        detectIris,
+        enhanceEyeImage,
+        applyEffectToEyeImage,
+        analyzeIrisForIridology,
+    };
+}
@@ -0,0 +1,133 @@
+import { IridologyAnalysis } from '../types';
+import { RESULT_CACHE_STORE, openDatabase, requestToPromise, transactionDone } from '../lib/db';
+import type { AiOperation, AiProvider } from './aiProvider';
+
+// Content-addressed cache for the paid AI calls. The key is a SHA-256 over the input image bytes,
+// the prompt and the provider/model that answered, so replaying an effect or coming back to
+// EditScreen is instant and free, while a different model or prompt is always a fresh call.
+
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+interface CachedResult {
+  key: string;
+  operation: AiOperation;
+  value: Blob | IridologyAnalysis;
+  size: number;
+  lastUsedAt: number;
+}
+
+// How a result type is stored. Images go in as Blobs for the same reasons as the gallery.
+export interface ResultCodec<T> {
+  encode: (value: T) => { value: CachedResult['value']; size: number };
+  decode: (stored: CachedResult['value']) => Promise<T>;
+}
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, since spreading a large image into String.fromCharCode overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const imageResultCodec: ResultCodec<string> = {
+  encode: (base64) => {
+    const blob = new Blob([base64ToBytes(base64)], { type: 'image/png' });
+    return { value: blob, size: blob.size };
+  },
+  decode: async (stored) => bytesToBase64(new Uint8Array(await (stored as Blob).arrayBuffer())),
+};
+
+export const analysisResultCodec: ResultCodec<IridologyAnalysis> = {
+  encode: (analysis) => ({ value: analysis, size: JSON.stringify(analysis).length * 2 }),
+  decode: async (stored) => stored as IridologyAnalysis,
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const cacheKey = async (provider: AiProvider, operation: AiOperation, prompt: string, base64ImageData: string): Promise<string> => {
+  const header = new TextEncoder().encode([operation, provider.id, provider.models[operation], prompt].join('\u0000') + '\u0000');
+  const image = base64ToBytes(base64ImageData);
+  const input = new Uint8Array(header.length + image.length);
+  input.set(header);
+  input.set(image, header.length);
+  return toHex(await crypto.subtle.digest('SHA-256', input));
+};
+
+const readEntry = async (key: string): Promise<CachedResult | undefined> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RESULT_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(RESULT_CACHE_STORE);
+  const entry = await requestToPromise<CachedResult | undefined>(store.get(key));
+  if (entry) {
+    store.put({ ...entry, lastUsedAt: Date.now() });
+  }
+  await transactionDone(transaction);
+  return entry;
+};
+
+const writeEntry = async (entry: CachedResult): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RESULT_CACHE_STORE, 'readwrite');
+  const store = transaction.objectStore(RESULT_CACHE_STORE);
+  store.put(entry);
+
+  // Evict least recently used entries until the cache fits again. Blobs in the records are
+  // lazy handles, so reading them all here is cheap.
+  const entries = await requestToPromise<CachedResult[]>(store.index('lastUsedAt').getAll());
+  let total = entries.reduce((sum, cached) => sum + cached.size, 0);
+  for (const cached of entries) {
+    if (total <= MAX_CACHE_BYTES) break;
+    if (cached.key === entry.key) continue;
+    store.delete(cached.key);
+    total -= cached.size;
+  }
+  await transactionDone(transaction);
+};
+
+// Returns the cached result for these inputs, or runs `compute` and caches what it returns.
+// The cache is best-effort: if IndexedDB or WebCrypto are unavailable, the call simply isn't cached.
+export interface CacheOptions {
+  // Skip the lookup and store a fresh result in place of the cached one, e.g. when the user
+  // rejected the cached result.
+  refresh?: boolean;
+  // Called when the result came from the cache rather than a (paid) call.
+  onCacheHit?: () => void;
+}
+
+export async function withResultCache<T>(
+  provider: AiProvider,
+  operation: AiOperation,
+  prompt: string,
+  base64ImageData: string,
+  codec: ResultCodec<T>,
+  compute: () => Promise<T>,
+  { refresh = false, onCacheHit }: CacheOptions = {}
+): Promise<T> {
+  let key: string | null = null;
+  try {
+    key = await cacheKey(provider, operation, prompt, base64ImageData);
+    const entry = refresh ? undefined : await readEntry(key);
+    if (entry) {
+      const cached = await codec.decode(entry.value);
+      onCacheHit?.();
+      return cached;
+    }
+  } catch (error) {
+    console.warn(`Result cache lookup failed for ${operation}:`, error);
+  }
+
+  const result = await compute();
+
+  if (key) {
+    const entryKey = key;
+    Promise.resolve()
+      .then(() => writeEntry({ key: entryKey, operation, ...codec.encode(result), lastUsedAt: Date.now() }))
+      .catch(error => console.warn(`Could not cache ${operation} result:`, error));
+  }
+  return result;
+}
@@ -14,11 +14,102 @@ export enum AppScreen {
   IRIDOLOGY = 'IRIDOLOGY',
 }
 
+// Id of an effect in the bundled catalog (public/effects/catalog.json), e.g. 'cosmic'.
+export type EffectKey = string;
+
+// Text in every app language; English is required and used as the fallback.
+export type LocalizedText = { en: string } & Partial<Record<'lt', string>>;
+
+export interface EffectDefinition {
+  id: EffectKey;
+  category: string;
+  name: LocalizedText;
+  prompt: string;
+  thumbnail: string;  // path relative to the app root
+  credits: number;    // extra credits charged when a photo using this effect is exported
+  proOnly: boolean;
+}
+
+export interface EffectCategory {
+  id: string;
+  name: LocalizedText;
+}
+
+export interface EffectCatalog {
+  version: number;
+  categories: EffectCategory[];
+  effects: EffectDefinition[];
+}
+
+// A user-authored effect, saved locally. Ids are prefixed so they can never collide with an EffectKey.
+export type CustomEffectId = `custom:${string}`;
+export type EffectId = EffectKey | CustomEffectId;
+
+export interface EffectPreset {
+  id: CustomEffectId;
+  name: string;
+  prompt: string;
+}
+
+// Local, non-AI adjustments. Every value is 0 when neutral.
+export interface Adjustments {
+  exposure: number;   // stops, -2..2
+  contrast: number;   // -100..100
+  saturation: number; // -100..100
+  vibrance: number;   // -100..100
+  clarity: number;    // 0..100, unsharp mask on luminance
+  vignette: number;   // 0..100
+  hue: number;        // degrees, -180..180
+}
+
+// How an AI effect step is mixed with the step before it. The raw model output is kept so the
+// intensity and mask can change later without paying for another call.
+export interface EffectBlend {
+  output: string;
+  intensity: number;    // 0..100, alpha of the effect over the previous step
+  protectCore: boolean; // radial mask that keeps the center (the iris) untouched
+  coreRadius: number;   // mask radius as a fraction of the image width, 0.05..0.5
+}
+
+// One entry of the EditScreen undo/redo list. The first entry is always the enhanced base image.
+// Adjustment steps keep their parameters: `image` is rendered from the closest earlier step without
+// adjustments, so re-adjusting replaces the previous values instead of compounding them.
+export interface EditHistoryState {
+  image: string;
+  effectKey: EffectId | null;
+  // Custom effects are copied into the step, so it still renders and re-renders after the preset is deleted.
+  customEffect?: Omit<EffectPreset, 'id'>;
+  adjustments?: Adjustments;
+  blend?: EffectBlend;
+  // The effect was generated from the previous step's image (stack mode) rather than the base image.
+  stacked?: boolean;
+}
+
+// Which of the person's eyes a photo shows. Iridology charts are mirrored between the two.
+export type EyeSide = 'left' | 'right';
+
 export interface HistoryItem {
   id: string;
   thumbnail: string;
   original: string;
   enhanced: string;
+  // The EditScreen history after the base image, and the position that was exported
+  // (an index into the full history, so 1 means edits[0]).
+  edits: EditHistoryState[];
+  editIndex: number;
+  eye?: EyeSide;
+  // Shared by the two photos of a both-eyes capture session.
+  pairId?: string;
+  // The structure check flagged the enhancement as not matching the photo (see lib/structureCheck.ts).
+  structureDrifted?: boolean;
+}
+
+// An enhanced iris handed to the iridology reading.
+export interface IridologySubject {
+  image: string;
+  eye?: EyeSide;
+  // The enhancement may have invented or lost fibers, which would make a reading meaningless.
+  structureDrifted?: boolean;
 }
 
 export interface IridologyFinding {
@@ -47,6 +138,21 @@ export interface IridologyAnalysis {
   disclaimer: string;
 }
 
+export interface IrisDetectionResult {
+    success: boolean;
+    centerX?: number;
+    centerY?: number;
+    radius?: number; // Normalized to image width
+    error?: string;
+    confidence?: number; // 0..1, only reported by the on-device detector
+    box?: {
+        xMin: number;
+        yMin: number;
+        xMax: number;
+        yMax: number;
+    };
+}
+
 export interface CropData {
   centerX: number;
   centerY: number;
@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_LOCAL_URL': JSON.stringify(env.AI_LOCAL_URL),
+        'process.env.AI_MODELS': JSON.stringify(env.AI_MODELS),
+        'process.env.AI_MOCK_SCENARIO': JSON.stringify(env.AI_MOCK_SCENARIO)
       },
       resolve: {
         alias: {